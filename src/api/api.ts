@@ -5,9 +5,14 @@ import {
   FetchArgs,
   FetchBaseQueryError,
 } from "@reduxjs/toolkit/query/react";
+import { Dispatch } from "@reduxjs/toolkit";
 import { RootState } from "../store";
 import { BASE_URL } from "../config/constants";
 import { ApiResponse, LoginSuccessData } from "@/types";
+import { SERVICE_TAG_TYPES } from "@/config/services";
+import { TOKEN_REFRESH_LEEWAY_MS } from "@/config/session";
+import { isTokenExpiring } from "@/utils/jwt";
+import { syncSessionCookie } from "@/utils/session";
 
 const baseQuery = fetchBaseQuery({
   baseUrl: BASE_URL,
@@ -20,39 +25,87 @@ const baseQuery = fetchBaseQuery({
   },
 });
 
+// In-flight refresh shared by every caller, so parallel 401s and the
+// scheduled refresh never spend the same refresh token twice
+let refreshPromise: Promise<boolean> | null = null;
+
+const requestRefresh = async (
+  dispatch: Dispatch,
+  getState: () => unknown
+): Promise<boolean> => {
+  const refreshToken = (getState() as RootState).auth.refreshToken;
+  const { logout, setCredentials } = await import(
+    "../features/auth/authSlice"
+  );
+  if (!refreshToken) {
+    dispatch(logout());
+    return false;
+  }
+
+  let refreshData: ApiResponse<LoginSuccessData> | null;
+  try {
+    const response = await fetch(`${BASE_URL}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+    refreshData = await response.json().catch(() => null);
+  } catch (err) {
+    // Offline or server unreachable: keep the session and let a later call retry
+    console.error("Token refresh failed:", err);
+    return false;
+  }
+
+  if (!refreshData?.success) {
+    dispatch(logout());
+    return false;
+  }
+
+  dispatch(setCredentials(refreshData.data));
+  // Keep the middleware cookie alive for as long as the session is
+  syncSessionCookie(refreshData.data.accessToken).catch((err) =>
+    console.error("Failed to renew the session cookie:", err)
+  );
+  return true;
+};
+
+// Refreshes the access token, joining a refresh that is already running.
+// Shaped as a thunk so components can `dispatch(refreshAccessToken)`.
+export const refreshAccessToken = (
+  dispatch: Dispatch,
+  getState: () => unknown
+): Promise<boolean> => {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh(dispatch, getState).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 const baseQueryWithReauth: BaseQueryFn<
   string | FetchArgs,
   unknown,
   FetchBaseQueryError
 > = async (args, api, extraOptions) => {
-  let result = await baseQuery(args, api, extraOptions);
-  if (result.error && result.error.status === 401) {
-    const refreshToken = (api.getState() as RootState).auth.refreshToken;
-    if (refreshToken) {
-      const refreshResult = await baseQuery(
-        {
-          url: "auth/refresh",
-          method: "POST",
-          body: { refreshToken },
-        },
-        api,
-        extraOptions
-      );
+  const getAccessToken = () =>
+    (api.getState() as RootState).auth.accessToken;
 
-      const refreshData = refreshResult.data as ApiResponse<LoginSuccessData>;
-
-      if (refreshData?.success) {
-        const { setCredentials } = await import("../features/auth/authSlice");
-        api.dispatch(setCredentials(refreshData.data));
+  // Refresh up front rather than sending a token that is about to lapse
+  const currentToken = getAccessToken();
+  if (currentToken && isTokenExpiring(currentToken, TOKEN_REFRESH_LEEWAY_MS)) {
+    await refreshAccessToken(api.dispatch, api.getState);
+  }
 
-        result = await baseQuery(args, api, extraOptions);
-      } else {
-        const { logout } = await import("../features/auth/authSlice");
-        api.dispatch(logout());
-      }
-    } else {
-      const { logout } = await import("../features/auth/authSlice");
-      api.dispatch(logout());
+  const sentToken = getAccessToken();
+  let result = await baseQuery(args, api, extraOptions);
+  if (result.error && result.error.status === 401) {
+    // Another request may have refreshed while this one was in flight
+    const refreshed =
+      getAccessToken() !== sentToken ||
+      (await refreshAccessToken(api.dispatch, api.getState));
+    if (refreshed) {
+      result = await baseQuery(args, api, extraOptions);
     }
   }
 
@@ -68,8 +121,8 @@ export const baseApi = createApi({
     "Dashboard",
     "ChatList",
     "Messages",
-    "Pops",
-    "Cocps",
+    "TwoFactor",
+    ...SERVICE_TAG_TYPES,
   ],
   endpoints: () => ({}),
 });
@@ -4,6 +4,9 @@ import {
   LoginRequest,
   LoginResponseData,
   LoginSuccessData,
+  RecoveryCodesData,
+  TwoFactorEnrolmentData,
+  TwoFactorStatus,
   VerifyTwoFactorRequest,
 } from "@/types";
 
@@ -38,6 +41,63 @@ export const authApi = baseApi.injectEndpoints({
         body: { refreshToken },
       }),
     }),
+
+    getTwoFactorStatus: builder.query<ApiResponse<TwoFactorStatus>, void>({
+      query: () => "auth/2fa/status",
+      providesTags: ["TwoFactor"],
+    }),
+
+    // `token` is a code from the current authenticator, required while 2FA
+    // is enabled so a walk-up session can't swap in its own device
+    startTwoFactorEnrolment: builder.mutation<
+      ApiResponse<TwoFactorEnrolmentData>,
+      { token?: string }
+    >({
+      query: (body) => ({
+        url: "auth/2fa/enrol",
+        method: "POST",
+        body,
+      }),
+    }),
+
+    // `token` comes from the newly scanned authenticator
+    confirmTwoFactorEnrolment: builder.mutation<
+      ApiResponse<TwoFactorStatus>,
+      { token: string }
+    >({
+      query: (body) => ({
+        url: "auth/2fa/enrol/confirm",
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["TwoFactor", "User"],
+    }),
+
+    // Replaces any earlier recovery codes; the server only returns them once
+    generateRecoveryCodes: builder.mutation<
+      ApiResponse<RecoveryCodesData>,
+      { token: string }
+    >({
+      query: (body) => ({
+        url: "auth/2fa/recovery-codes",
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["TwoFactor"],
+    }),
+
+    // Admin action for a colleague who lost their authenticator; they enrol
+    // a new one at their next login
+    resetUserTwoFactor: builder.mutation<ApiResponse<null>, string>({
+      query: (userId) => ({
+        url: `auth/2fa/reset/${userId}`,
+        method: "POST",
+      }),
+      invalidatesTags: (result, error, userId) => [
+        { type: "Users", id: userId },
+        { type: "Users", id: "LIST" },
+      ],
+    }),
   }),
 });
 
@@ -45,4 +105,9 @@ export const {
   useLoginMutation,
   useVerifyTwoFactorMutation,
   useRefreshTokenMutation,
+  useGetTwoFactorStatusQuery,
+  useStartTwoFactorEnrolmentMutation,
+  useConfirmTwoFactorEnrolmentMutation,
+  useGenerateRecoveryCodesMutation,
+  useResetUserTwoFactorMutation,
 } = authApi;
@@ -1,5 +1,6 @@
 import {
   ApiResponse,
+  Chat,
   ChatsResponseData,
   Message,
   MessagesResponseData,
@@ -7,6 +8,12 @@ import {
 } from "@/types";
 import { baseApi } from "./api";
 
+// Chat ids and messages are fetched in pages this large when a whole history
+// is needed
+const HISTORY_PAGE_LIMIT = 500;
+
+type PatientMessages = { chatId: string | null; messages: Message[] };
+
 export const chatApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
     getChats: builder.query<ApiResponse<ChatsResponseData>, void>({
@@ -21,6 +28,56 @@ export const chatApi = baseApi.injectEndpoints({
       ],
     }),
 
+    // A patient's whole conversation, paging through the chat list to find it
+    // and then through every page of its messages
+    getPatientMessages: builder.query<PatientMessages, string>({
+      queryFn: async (patientId, api, extraOptions, baseQuery) => {
+        let chat: Chat | undefined;
+        let page = 1;
+        let totalPage = 1;
+        do {
+          const result = await baseQuery(
+            `chat?user=true&page=${page}&limit=${HISTORY_PAGE_LIMIT}`
+          );
+          if (result.error) return { error: result.error };
+
+          const response = result.data as ApiResponse<ChatsResponseData>;
+          if (!response.success) break;
+          chat = response.data.data.find((item) =>
+            item.participants.some((p) => p.user?._id === patientId)
+          );
+          totalPage = response.data.meta.totalPage || 1;
+          page += 1;
+        } while (!chat && page <= totalPage);
+
+        if (!chat) return { data: { chatId: null, messages: [] } };
+
+        const messages: Message[] = [];
+        page = 1;
+        totalPage = 1;
+        do {
+          const result = await baseQuery(
+            `message?chatId=${chat._id}&page=${page}&limit=${HISTORY_PAGE_LIMIT}`
+          );
+          if (result.error) return { error: result.error };
+
+          const response = result.data as ApiResponse<MessagesResponseData>;
+          if (!response.success) break;
+          messages.push(...response.data.data);
+          totalPage = response.data.meta.totalPage || 1;
+          page += 1;
+        } while (page <= totalPage);
+
+        return { data: { chatId: chat._id, messages } };
+      },
+      providesTags: (result) => [
+        "ChatList",
+        ...(result?.chatId
+          ? [{ type: "Messages" as const, id: result.chatId }]
+          : []),
+      ],
+    }),
+
     sendImageMessage: builder.mutation<ApiResponse<Message>, SendImageRequest>({
       query: ({ chatId, attachment }) => {
         const formData = new FormData();
@@ -42,5 +99,6 @@ export const chatApi = baseApi.injectEndpoints({
 export const {
   useGetChatsQuery,
   useGetMessagesQuery,
+  useGetPatientMessagesQuery,
   useSendImageMessageMutation,
 } = chatApi;
@@ -1,10 +1,30 @@
 import { baseApi } from "./api";
-import { ApiResponse, DashboardResponseData, User } from "@/types";
+import {
+  ApiResponse,
+  DashboardQueryParams,
+  DashboardResponseData,
+  DemographicsResponseData,
+  User,
+} from "@/types";
 
 export const dashboardApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
-    getDashboardData: builder.query<ApiResponse<DashboardResponseData>, void>({
-      query: () => "dashboard",
+    getDashboardData: builder.query<
+      ApiResponse<DashboardResponseData>,
+      DashboardQueryParams
+    >({
+      query: ({ from, to, granularity }) => {
+        const params = new URLSearchParams({ from, to, granularity });
+        return `dashboard?${params.toString()}`;
+      },
+      providesTags: ["Dashboard"],
+    }),
+
+    getDemographics: builder.query<
+      ApiResponse<DemographicsResponseData>,
+      void
+    >({
+      query: () => "dashboard/demographics",
       providesTags: ["Dashboard"],
     }),
 
@@ -22,5 +42,8 @@ export const dashboardApi = baseApi.injectEndpoints({
   }),
 });
 
-export const { useGetDashboardDataQuery, useToggleUserStatusMutation } =
-  dashboardApi;
+export const {
+  useGetDashboardDataQuery,
+  useGetDemographicsQuery,
+  useToggleUserStatusMutation,
+} = dashboardApi;
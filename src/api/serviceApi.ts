@@ -1,183 +1,463 @@
 import {
-  AllPopsResponseData,
-  AllCocpsResponseData,
-  Pop,
-  Cocp,
+  ServiceRequestsResponseData,
+  ServiceRequest,
+  ServiceType,
   ApiResponse,
-  DeliveryStatus,
+  DeliveryUpdateInput,
+  ServiceQueryParams,
+  ServiceDecisionInput,
+  ReminderChannel,
 } from "@/types";
+import {
+  SERVICE_REGISTRY,
+  SERVICE_TYPES,
+  getServiceDefinition,
+} from "@/config/services";
+import { SUPPLY_MONTH_OPTIONS } from "@/config/reorder";
+import { toDateInputValue } from "@/utils/dashboardRange";
+import type { AppDispatch, RootState } from "@/store";
 import { baseApi } from "./api";
 
-const transformServiceResponse = <T>(response: {
+type ServiceListResponse = {
   success: boolean;
   message: string;
   data: {
-    data: T[];
+    data: ServiceRequest[];
     meta: { page: number; limit: number; total: number; totalPage: number };
   };
-}) => {
+};
+
+// Stamps the service type onto each record so `ServiceRequest` can be narrowed
+export const withServiceType = <T extends ServiceRequest>(
+  request: T,
+  service: ServiceType
+): T => ({ ...request, serviceType: service });
+
+const transformServiceResponse = (
+  response: ServiceListResponse,
+  service: ServiceType
+): ServiceRequestsResponseData => {
   return {
     success: response.success as true,
     message: response.message,
-    data: response.data.data,
+    data: response.data.data.map((req) => withServiceType(req, service)),
     meta: response.data.meta,
   };
 };
 
+// Builds the list URL for a service endpoint, only sending the filters that are set
+const buildServiceListUrl = (
+  endpoint: string,
+  {
+    page = 1,
+    limit = 10,
+    userId,
+    assignedTo,
+    status,
+    deliveryStatus,
+    search,
+    from,
+    to,
+    sortBy,
+    sortOrder,
+  }: ServiceQueryParams
+) => {
+  const params = new URLSearchParams();
+  params.append("page", page.toString());
+  params.append("limit", limit.toString());
+  if (userId) params.append("userId", userId);
+  if (assignedTo) params.append("assignedTo", assignedTo);
+  if (status) params.append("status", status);
+  if (deliveryStatus?.length)
+    params.append("deliveryStatus", deliveryStatus.join(","));
+  if (search?.trim()) params.append("search", search.trim());
+  if (from) params.append("from", from);
+  if (to) params.append("to", to);
+  if (sortBy) params.append("sortBy", sortBy);
+  if (sortOrder) params.append("sortOrder", sortOrder);
+
+  return `${endpoint}?${params.toString()}`;
+};
+
+// Tags invalidated by any write to a single request
+const requestTags = (service: ServiceType, id: string) => {
+  const { tagType } = getServiceDefinition(service);
+  return [
+    { type: tagType, id: "LIST" },
+    { type: tagType, id },
+  ];
+};
+
 export const serviceApi = baseApi.injectEndpoints({
   endpoints: (builder) => ({
-    getPops: builder.query<
-      AllPopsResponseData,
-      { page?: number; limit?: number; userId?: string }
+    getServiceRequests: builder.query<
+      ServiceRequestsResponseData,
+      { service: ServiceType } & ServiceQueryParams
     >({
-      query: ({ page = 1, limit = 10, userId }) => {
-        let url = `pop?page=${page}&limit=${limit}`;
-        if (userId) url += `&userId=${userId}`;
-        return url;
-      },
-      transformResponse: transformServiceResponse<Pop>,
-      providesTags: (result) =>
-        result
+      query: ({ service, ...params }) =>
+        buildServiceListUrl(getServiceDefinition(service).endpoint, params),
+      transformResponse: (response: ServiceListResponse, meta, { service }) =>
+        transformServiceResponse(response, service),
+      providesTags: (result, error, { service }) => {
+        const { tagType } = getServiceDefinition(service);
+        return result
           ? [
             ...result.data.map(({ _id }) => ({
-              type: "Pops" as const,
+              type: tagType,
               id: _id,
             })),
-            { type: "Pops", id: "LIST" },
+            { type: tagType, id: "LIST" },
           ]
-          : [{ type: "Pops", id: "LIST" }],
+          : [{ type: tagType, id: "LIST" }];
+      },
+    }),
+
+    // Every request a patient has made, across all registered services
+    getPatientServiceRequests: builder.query<ServiceRequest[], string>({
+      queryFn: async (userId, api, extraOptions, baseQuery) => {
+        const requests: ServiceRequest[] = [];
+
+        for (const service of SERVICE_TYPES) {
+          const result = await baseQuery(
+            buildServiceListUrl(SERVICE_REGISTRY[service].endpoint, {
+              page: 1,
+              limit: 1000,
+              userId,
+            })
+          );
+          if (result.error) return { error: result.error };
+
+          const { data } = transformServiceResponse(
+            result.data as ServiceListResponse,
+            service
+          );
+          requests.push(...data);
+        }
+
+        return { data: requests };
+      },
+      providesTags: SERVICE_TYPES.map((service) => ({
+        type: SERVICE_REGISTRY[service].tagType,
+        id: "LIST",
+      })),
+    }),
+
+    // Accepted and pending requests recent enough to still be in supply,
+    // across all services; the reorder list is worked out from these
+    getReorderCandidates: builder.query<ServiceRequest[], void>({
+      queryFn: async (arg, api, extraOptions, baseQuery) => {
+        const from = new Date();
+        from.setMonth(from.getMonth() - Math.max(...SUPPLY_MONTH_OPTIONS) - 1);
+        const requests: ServiceRequest[] = [];
+
+        for (const service of SERVICE_TYPES) {
+          for (const status of ["accept", "pending"] as const) {
+            let page = 1;
+            let totalPage = 1;
+            do {
+              const result = await baseQuery(
+                buildServiceListUrl(SERVICE_REGISTRY[service].endpoint, {
+                  page,
+                  limit: 500,
+                  status,
+                  from: from.toISOString().slice(0, 10),
+                })
+              );
+              if (result.error) return { error: result.error };
+
+              const { data, meta } = transformServiceResponse(
+                result.data as ServiceListResponse,
+                service
+              );
+              requests.push(...data);
+              totalPage = meta.totalPage || 1;
+              page += 1;
+            } while (page <= totalPage);
+          }
+        }
+
+        return { data: requests };
+      },
+      providesTags: SERVICE_TYPES.map((service) => ({
+        type: SERVICE_REGISTRY[service].tagType,
+        id: "LIST",
+      })),
     }),
 
-    updatePopStatus: builder.mutation<
-      ApiResponse<Pop>,
-      { id: string; status: "accept" | "decline" }
+    // Every request created in a date range, across all services, for the
+    // operations analytics
+    getServiceRequestsInRange: builder.query<
+      ServiceRequest[],
+      { from: string; to: string }
     >({
-      query: ({ id, status }) => ({
-        url: `pop/update/${id}`,
-        method: "PATCH",
-        body: { status },
-      }),
-      invalidatesTags: (result, error, { id }) => [
-        { type: "Pops", id: "LIST" },
-        { type: "Pops", id },
-      ],
+      queryFn: async ({ from, to }, api, extraOptions, baseQuery) => {
+        const requests: ServiceRequest[] = [];
+
+        for (const service of SERVICE_TYPES) {
+          let page = 1;
+          let totalPage = 1;
+          do {
+            const result = await baseQuery(
+              buildServiceListUrl(SERVICE_REGISTRY[service].endpoint, {
+                page,
+                limit: 500,
+                from,
+                to,
+              })
+            );
+            if (result.error) return { error: result.error };
+
+            const { data, meta } = transformServiceResponse(
+              result.data as ServiceListResponse,
+              service
+            );
+            requests.push(...data);
+            totalPage = meta.totalPage || 1;
+            page += 1;
+          } while (page <= totalPage);
+        }
+
+        return { data: requests };
+      },
+      providesTags: SERVICE_TYPES.map((service) => ({
+        type: SERVICE_REGISTRY[service].tagType,
+        id: "LIST",
+      })),
     }),
 
-    updatePopDeliveryStatus: builder.mutation<
-      ApiResponse<Pop>,
-      {
-        id: string;
-        deliveryStatus: DeliveryStatus.Started | DeliveryStatus.Done;
-        deliveredBy?: string;
-      }
+    getServiceRequestById: builder.query<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string }
     >({
-      query: ({ id, deliveryStatus, deliveredBy }) => ({
-        url: `pop/update/${id}`,
-        method: "PATCH",
-        body: { deliveryStatus, deliveredBy },
-      }),
-      invalidatesTags: (result, error, { id }) => [
-        { type: "Pops", id: "LIST" },
-        { type: "Pops", id },
+      query: ({ service, id }) =>
+        `${getServiceDefinition(service).endpoint}/${id}`,
+      transformResponse: (
+        response: ApiResponse<ServiceRequest>,
+        meta,
+        { service }
+      ) =>
+        response.success
+          ? { ...response, data: withServiceType(response.data, service) }
+          : response,
+      providesTags: (result, error, { service, id }) => [
+        { type: getServiceDefinition(service).tagType, id },
       ],
     }),
 
-    deletePop: builder.mutation<ApiResponse<Pop>, string>({
-      query: (id) => ({
-        url: `pop/delete/${id}`,
-        method: "DELETE",
+    updateServiceRequestStatus: builder.mutation<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string } & ServiceDecisionInput
+    >({
+      query: ({ service, id, ...decision }) => ({
+        url: `${getServiceDefinition(service).endpoint}/update/${id}`,
+        method: "PATCH",
+        body: decision,
       }),
-      invalidatesTags: [{ type: "Pops", id: "LIST" }],
+      invalidatesTags: (result, error, { service, id }) =>
+        requestTags(service, id),
     }),
 
-    // --- COCP (Combined Oral Contraceptive Pill) Endpoints ---
-
-    getCocps: builder.query<
-      AllCocpsResponseData,
-      { page?: number; limit?: number; userId?: string }
+    updateServiceRequestDeliveryStatus: builder.mutation<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string } & DeliveryUpdateInput
     >({
-      query: ({ page = 1, limit = 10, userId }) => {
-        let url = `cocp?page=${page}&limit=${limit}`;
-        if (userId) url += `&userId=${userId}`;
-        return url;
-      },
-      transformResponse: transformServiceResponse<Cocp>,
-      providesTags: (result) =>
-        result
-          ? [
-            ...result.data.map(({ _id }) => ({
-              type: "Cocps" as const,
-              id: _id,
-            })),
-            { type: "Cocps", id: "LIST" },
-          ]
-          : [{ type: "Cocps", id: "LIST" }],
+      query: ({ service, id, ...update }) => ({
+        url: `${getServiceDefinition(service).endpoint}/update/${id}`,
+        method: "PATCH",
+        body: update,
+      }),
+      invalidatesTags: (result, error, { service, id }) =>
+        requestTags(service, id),
     }),
 
-    updateCocpDeliveryStatus: builder.mutation<
-      ApiResponse<Cocp>,
-      {
-        id: string;
-        deliveryStatus: DeliveryStatus.Started | DeliveryStatus.Done;
-        deliveredBy?: string;
-      }
+    // Pass `assignedTo: null` to return the request to the unassigned pool
+    assignServiceRequest: builder.mutation<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string; assignedTo: string | null }
     >({
-      query: ({ id, deliveryStatus, deliveredBy }) => ({
-        url: `cocp/update/${id}`,
+      query: ({ service, id, assignedTo }) => ({
+        url: `${getServiceDefinition(service).endpoint}/update/${id}`,
         method: "PATCH",
-        body: { deliveryStatus, deliveredBy },
+        body: { assignedTo },
       }),
-      invalidatesTags: (result, error, { id }) => [
-        { type: "Cocps", id: "LIST" },
-        { type: "Cocps", id },
+      invalidatesTags: (result, error, { service, id }) => [
+        ...requestTags(service, id),
+        "Dashboard",
       ],
     }),
 
-    updateCocpStatus: builder.mutation<
-      ApiResponse<Cocp>,
-      { id: string; status: "accept" | "decline" }
+    // Asks the patient to reorder, by push notification or chat message
+    sendReorderReminder: builder.mutation<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string; channel: ReminderChannel }
     >({
-      query: ({ id, status }) => ({
-        url: `cocp/update/${id}`,
-        method: "PATCH",
-        body: { status },
+      query: ({ service, id, channel }) => ({
+        url: `${getServiceDefinition(service).endpoint}/remind/${id}`,
+        method: "POST",
+        body: { channel },
       }),
-      invalidatesTags: (result, error, { id }) => [
-        { type: "Cocps", id: "LIST" },
-        { type: "Cocps", id },
+      invalidatesTags: (result, error, { service, id, channel }) => [
+        ...requestTags(service, id),
+        ...(channel === "chat" ? (["ChatList"] as const) : []),
       ],
     }),
 
-    deleteCocp: builder.mutation<ApiResponse<Cocp>, string>({
-      query: (id) => ({
-        url: `cocp/delete/${id}`,
+    deleteServiceRequest: builder.mutation<
+      ApiResponse<ServiceRequest>,
+      { service: ServiceType; id: string }
+    >({
+      query: ({ service, id }) => ({
+        url: `${getServiceDefinition(service).endpoint}/delete/${id}`,
         method: "DELETE",
       }),
-      invalidatesTags: [{ type: "Cocps", id: "LIST" }],
-    }),
-
-    getPopById: builder.query<ApiResponse<Pop>, string>({
-      query: (id) => `pop/${id}`,
-      providesTags: (result, error, id) => [{ type: "Pops", id }],
-    }),
-
-    getCocpById: builder.query<ApiResponse<Cocp>, string>({
-      query: (id) => `cocp/${id}`,
-      providesTags: (result, error, id) => [{ type: "Cocps", id }],
+      invalidatesTags: (result, error, { service }) => [
+        { type: getServiceDefinition(service).tagType, id: "LIST" },
+      ],
     }),
   }),
 });
 
 // Export the auto-generated hooks for use in your components
 export const {
-  useGetPopsQuery,
-  useUpdatePopStatusMutation,
-  useDeletePopMutation,
-  useGetCocpsQuery,
-  useUpdateCocpStatusMutation,
-  useDeleteCocpMutation,
-  useGetPopByIdQuery,
-  useGetCocpByIdQuery,
-  useUpdatePopDeliveryStatusMutation,
-  useUpdateCocpDeliveryStatusMutation,
+  useGetServiceRequestsQuery,
+  useLazyGetServiceRequestsQuery,
+  useGetPatientServiceRequestsQuery,
+  useLazyGetPatientServiceRequestsQuery,
+  useGetReorderCandidatesQuery,
+  useGetServiceRequestsInRangeQuery,
+  useGetServiceRequestByIdQuery,
+  useUpdateServiceRequestStatusMutation,
+  useUpdateServiceRequestDeliveryStatusMutation,
+  useAssignServiceRequestMutation,
+  useSendReorderReminderMutation,
+  useDeleteServiceRequestMutation,
 } = serviceApi;
+
+// Whether a request belongs in a list fetched with these filters. Free-text
+// search is applied by the server, so it is left out here.
+const matchesListFilters = (
+  request: ServiceRequest,
+  { status, deliveryStatus, userId, assignedTo, from, to }: ServiceQueryParams
+) => {
+  const getRefId = (ref?: { _id: string } | string) =>
+    typeof ref === "object" ? ref._id : ref;
+  // Local day, matching the date inputs the range comes from
+  const createdDay =
+    request.createdAt && toDateInputValue(new Date(request.createdAt));
+
+  if (status && request.status !== status) return false;
+  if (deliveryStatus?.length && !deliveryStatus.includes(request.deliveryStatus))
+    return false;
+  if (userId && getRefId(request.userId) !== userId) return false;
+  if (assignedTo && getRefId(request.assignedTo) !== assignedTo) return false;
+  if (from && (!createdDay || createdDay < from)) return false;
+  if (to && (!createdDay || createdDay > to)) return false;
+  return true;
+};
+
+const selectCachedListArgs = (state: RootState, service: ServiceType) =>
+  serviceApi.util
+    .selectCachedArgsForQuery(state, "getServiceRequests")
+    .filter((args) => args.service === service);
+
+// Adds a request created elsewhere to the cached lists it belongs in without
+// refetching. Only first pages sorted newest-first show it; the rest just
+// count it.
+export const insertServiceRequest =
+  (request: ServiceRequest) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    selectCachedListArgs(getState(), request.serviceType)
+      .filter(
+        (args) => !args.search?.trim() && matchesListFilters(request, args)
+      )
+      .forEach((args) => {
+        dispatch(
+          serviceApi.util.updateQueryData("getServiceRequests", args, (draft) => {
+            if (draft.data.some(({ _id }) => _id === request._id)) return;
+            draft.meta.total += 1;
+            draft.meta.totalPage = Math.ceil(
+              draft.meta.total / draft.meta.limit
+            );
+            if ((args.page ?? 1) === 1 && args.sortOrder !== "asc") {
+              draft.data.unshift(request);
+              draft.data.splice(draft.meta.limit);
+            }
+          })
+        );
+      });
+    dispatch(serviceApi.util.invalidateTags(["Dashboard"]));
+  };
+
+// Copies an updated request onto its cached copy. Socket payloads may carry
+// bare ids where the cache holds populated documents (patient, assignee);
+// those are kept while the id still matches.
+const mergeServiceRequest = (
+  draft: ServiceRequest,
+  request: ServiceRequest
+) => {
+  (Object.keys(request) as (keyof ServiceRequest)[]).forEach((key) => {
+    const cached: unknown = draft[key];
+    const next = request[key];
+    const keepsPopulated =
+      typeof next === "string" &&
+      typeof cached === "object" &&
+      cached !== null &&
+      "_id" in cached &&
+      cached._id === next;
+    if (!keepsPopulated) Object.assign(draft, { [key]: next });
+  });
+};
+
+// Applies a request updated elsewhere to the cache. Edits that leave it in the
+// same lists are patched in place; when it moves between lists (e.g. pending
+// to accepted) or isn't cached at all, the service's lists are refetched.
+export const applyServiceRequestUpdate =
+  (request: ServiceRequest) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    const cachedArgs = selectCachedListArgs(getState(), request.serviceType);
+    const previous = cachedArgs
+      .flatMap(
+        (args) =>
+          serviceApi.endpoints.getServiceRequests.select(args)(getState()).data
+            ?.data ?? []
+      )
+      .find(({ _id }) => _id === request._id);
+
+    const changesLists =
+      !previous ||
+      cachedArgs.some(
+        (args) =>
+          matchesListFilters(previous, args) !==
+          matchesListFilters(request, args)
+      );
+
+    if (changesLists) {
+      dispatch(
+        serviceApi.util.invalidateTags([
+          { type: getServiceDefinition(request.serviceType).tagType, id: "LIST" },
+          "Dashboard",
+        ])
+      );
+    } else {
+      cachedArgs.forEach((args) => {
+        dispatch(
+          serviceApi.util.updateQueryData("getServiceRequests", args, (draft) => {
+            const index = draft.data.findIndex(
+              ({ _id }) => _id === request._id
+            );
+            if (index !== -1) mergeServiceRequest(draft.data[index], request);
+          })
+        );
+      });
+    }
+
+    dispatch(
+      serviceApi.util.updateQueryData(
+        "getServiceRequestById",
+        { service: request.serviceType, id: request._id },
+        (draft) => {
+          if (draft.success) mergeServiceRequest(draft.data, request);
+        }
+      )
+    );
+  };
@@ -1,4 +1,5 @@
 import {
+  AccountEvent,
   AllUsersResponseData,
   ApiResponse,
   CreateStaffRequest,
@@ -6,6 +7,7 @@ import {
   ProfileResponseData,
   UpdateAvatarRequest,
   User,
+  UserQueryParams,
 } from "@/types";
 import { baseApi } from "./api";
 
@@ -55,15 +57,28 @@ export const userApi = baseApi.injectEndpoints({
       invalidatesTags: ["User"],
     }),
 
-    getAllUser: builder.query<
-      AllUsersResponseData,
-      { page?: number; limit?: number; isStaff?: boolean }
-    >({
-      query: ({ page, limit, isStaff } = {}) => {
+    getAllUser: builder.query<AllUsersResponseData, UserQueryParams>({
+      query: ({
+        page,
+        limit,
+        isStaff,
+        search,
+        status,
+        verified,
+        role,
+        sortBy,
+        sortOrder,
+      } = {}) => {
         const params = new URLSearchParams();
         if (page) params.append("page", page.toString());
         if (limit) params.append("limit", limit.toString());
         if (isStaff) params.append("staff", "true");
+        if (search?.trim()) params.append("search", search.trim());
+        if (status) params.append("status", status);
+        if (verified !== undefined) params.append("verified", String(verified));
+        if (role) params.append("role", role);
+        if (sortBy) params.append("sortBy", sortBy);
+        if (sortOrder) params.append("sortOrder", sortOrder);
 
         return `user?${params.toString()}`;
       },
@@ -106,6 +121,11 @@ export const userApi = baseApi.injectEndpoints({
       providesTags: (result, error, id) => [{ type: "Users", id }],
     }),
 
+    getUserActivity: builder.query<ApiResponse<AccountEvent[]>, string>({
+      query: (id) => `user/activity/${id}`,
+      providesTags: (result, error, id) => [{ type: "Users", id }],
+    }),
+
     toggleUserStatus: builder.mutation<
       ApiResponse<User>,
       { id: string; blocked: boolean }
@@ -115,7 +135,10 @@ export const userApi = baseApi.injectEndpoints({
         method: "POST",
         body: { blocked },
       }),
-      invalidatesTags: [{ type: "Users", id: "LIST" }],
+      invalidatesTags: (result, error, { id }) => [
+        { type: "Users", id: "LIST" },
+        { type: "Users", id },
+      ],
     }),
 
     deleteUser: builder.mutation<ApiResponse<null>, string>({
@@ -135,7 +158,9 @@ export const {
   useUpdateProfileMutation,
   useUpdateAvatarMutation,
   useGetAllUserQuery,
+  useLazyGetAllUserQuery,
   useGetUserByIdQuery,
+  useGetUserActivityQuery,
   useToggleUserStatusMutation,
   useDeleteUserMutation,
 } = userApi;
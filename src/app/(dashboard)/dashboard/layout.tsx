@@ -2,9 +2,12 @@
 
 import Sidebar from "@/components/shared/Sidebar/Sidebar";
 import Topbar from "@/components/shared/Topbar/Topbar";
+import { ServiceQueueListener } from "@/components/Notification/ServiceQueueListener";
+import { PrivateRoute } from "@/components/Auth/PrivateRoute";
+import { SessionRefresher } from "@/components/Auth/SessionRefresher";
+import { IdleTimeout } from "@/components/Auth/IdleTimeout";
 import { Poppins } from "next/font/google";
 import "../../globals.css";
-import { useEffect, useState } from "react";
 import { useSelector } from "react-redux";
 import { RootState } from "@/store";
 
@@ -19,34 +22,32 @@ export default function DashboardLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const [hasHydrated, setHasHydrated] = useState(false);
-  const isAuthenticated = useSelector(
-    (state: RootState) => state.auth.isAuthenticated
-  );
-  useEffect(() => {
-    if (!hasHydrated) {
-      setHasHydrated(true);
-    }
-  }, [hasHydrated]);
+  // middleware.ts keeps signed-out visitors from reaching this layout, and
+  // PersistGate holds rendering until the persisted auth state is restored
+  const isLocked = useSelector((state: RootState) => state.auth.isLocked);
 
-  if (!hasHydrated && !isAuthenticated) {
-  }
   return (
     <div
-      className={`${PoppinsFont.variable} font-sans min-h-screen bg-gray-100`}
+      className={`${PoppinsFont.variable} font-sans min-h-screen bg-gray-100 print:bg-white`}
     >
-      {/* <PrivateRoute> */}
-      <div className="fixed left-0 top-0 h-full w-72 bg-white shadow-md z-10">
-        <Sidebar />
-      </div>
+      <PrivateRoute>
+        <SessionRefresher />
+        <ServiceQueueListener />
+        {/* Kept mounted but unreachable while locked, so form state survives */}
+        <div inert={isLocked}>
+          <div className="fixed left-0 top-0 h-full w-72 bg-white shadow-md z-10 print:hidden">
+            <Sidebar />
+          </div>
 
-      <div className="fixed top-0 left-72 right-0 h-16 bg-white shadow-sm z-20 ">
-        <Topbar />
-      </div>
+          <div className="fixed top-0 left-72 right-0 h-16 bg-white shadow-sm z-20 print:hidden">
+            <Topbar />
+          </div>
 
-      {/* Main Content */}
-      <main className="ml-72 pt-20 min-h-screen p-6">{children}</main>
-      {/* </PrivateRoute> */}
+          {/* Main Content */}
+          <main className="ml-72 pt-20 min-h-screen p-6 print:m-0 print:p-0">{children}</main>
+        </div>
+        <IdleTimeout />
+      </PrivateRoute>
     </div>
   );
 }
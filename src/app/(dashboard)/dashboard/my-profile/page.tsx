@@ -10,6 +10,7 @@ import {
   useUpdateAvatarMutation,
 } from "@/api/userApi"; // Adjust this import path to your project structure
 import { Gender, Sex } from "@/types"; // Adjust import path
+import { TwoFactorSettings } from "@/components/Auth/TwoFactorSettings";
 
 // Form data type now only includes fields that are part of the main form
 type FormData = {
@@ -311,6 +312,9 @@ const Page = () => {
               </div>
             )}
           </div>
+
+          {/* --- SECURITY SECTION --- */}
+          <TwoFactorSettings />
         </div>
       </div>
     </div>
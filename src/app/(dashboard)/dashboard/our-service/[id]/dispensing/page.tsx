@@ -0,0 +1,249 @@
+"use client";
+
+import { useGetServiceRequestByIdQuery } from "@/api/serviceApi";
+import { getServiceDefinition, isServiceType } from "@/config/services";
+import { PHARMACY_DETAILS } from "@/config/constants";
+import { usePermissions } from "@/hooks/usePermissions";
+import { DEFAULT_SUPPLY_MONTHS } from "@/config/reorder";
+import { User } from "@/types";
+import { getFullName } from "@/utils/staff";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+type PrintDocument = "label" | "slip" | "both";
+
+const documentOptions: { value: PrintDocument; label: string }[] = [
+  { value: "label", label: "Dispensing Label" },
+  { value: "slip", label: "Packing Slip" },
+  { value: "both", label: "Both" },
+];
+
+const formatDate = (isoString?: string) =>
+  isoString ? new Date(isoString).toLocaleDateString("en-GB") : "N/A";
+
+const DispensingPage = () => {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { can } = usePermissions();
+
+  const id = params.id as string;
+  const typeParam = searchParams.get("type");
+  const type = isServiceType(typeParam) ? typeParam : null;
+
+  // One pack per month supplied unless the pharmacist changes it here
+  const [packsOverride, setPacksOverride] = useState<number | null>(null);
+  const [documents, setDocuments] = useState<PrintDocument>("both");
+
+  const { data: response, isLoading } = useGetServiceRequestByIdQuery(
+    { service: type!, id },
+    { skip: !type || !can("requests:dispatch") }
+  );
+
+  // Labels and slips are part of packing, so only dispatch roles print them
+  if (!can("requests:dispatch"))
+    return (
+      <div className="p-8 text-center text-red-500">
+        You do not have permission to print dispensing documents.
+      </div>
+    );
+  if (isLoading)
+    return (
+      <div className="p-8 text-center text-pink-500">
+        Loading dispensing documents...
+      </div>
+    );
+  if (!type || !response?.success)
+    return (
+      <div className="p-8 text-center text-red-500">
+        Could not find the requested service.
+      </div>
+    );
+
+  const request = response.data;
+  if (request.status !== "accept")
+    return (
+      <div className="p-8 text-center text-red-500">
+        Dispensing documents are only available for accepted requests.
+      </div>
+    );
+
+  const packs =
+    packsOverride ?? request.suppliedMonths ?? DEFAULT_SUPPLY_MONTHS;
+  const patient = request.userId as User;
+  const service = getServiceDefinition(type);
+  const product = service.dispensing.product(request) || "Not specified";
+  const tablets = packs * service.dispensing.packSize;
+  const quantity = `${packs} x ${service.dispensing.packSize} tablets (${tablets})`;
+  const dispensedOn = new Date().toLocaleDateString("en-GB");
+  const reference = request._id.slice(-8).toUpperCase();
+
+  const showLabel = documents !== "slip";
+  const showSlip = documents !== "label";
+
+  return (
+    <div className="text-gray-900">
+      {/* Screen-only controls */}
+      <div className="bg-white p-6 rounded-xl shadow-md mb-8 print:hidden">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-2 text-sm text-gray-500 hover:text-pink-500 mb-4"
+        >
+          <ArrowLeft size={16} />
+          Back to Request
+        </button>
+        <div className="flex flex-wrap items-end gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Packs Supplied
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={13}
+              value={packs}
+              onChange={(e) =>
+                setPacksOverride(
+                  Math.max(1, Math.min(13, Number(e.target.value) || 1))
+                )
+              }
+              className="w-24 px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+            />
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-gray-600 mb-1">
+              Print
+            </p>
+            <div className="flex gap-2">
+              {documentOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setDocuments(option.value)}
+                  className={`px-3 py-2 rounded-md text-sm transition-colors ${documents === option.value
+                      ? "bg-fuchsia-400 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-fuchsia-200"
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-pink-500 text-white font-semibold rounded-lg hover:bg-pink-600 transition"
+          >
+            <Printer size={18} />
+            Print
+          </button>
+        </div>
+      </div>
+
+      {/* Dispensing label: sized for a standard 80 x 40 mm label roll */}
+      {showLabel && (
+        <div className="mb-8 print:mb-0 break-after-page">
+          <h2 className="text-lg font-semibold mb-3 print:hidden">
+            Dispensing Label
+          </h2>
+          <div className="w-[80mm] h-[40mm] bg-white border border-gray-400 p-[2mm] text-[8pt] leading-tight flex flex-col justify-between overflow-hidden print:border-black">
+            <div>
+              <p className="font-bold text-[9pt]">
+                {tablets} {product} tablets
+              </p>
+              <p className="mt-[1mm]">{service.dispensing.directions}</p>
+              <p className="mt-[1mm] font-semibold">
+                Keep out of the reach and sight of children.
+              </p>
+            </div>
+            <div className="border-t border-gray-400 pt-[1mm] flex justify-between gap-[2mm]">
+              <div>
+                <p className="font-bold">{getFullName(patient)}</p>
+                <p>{patient.postcode || "No postcode"}</p>
+              </div>
+              <div className="text-right">
+                <p>{dispensedOn}</p>
+                <p>Ref {reference}</p>
+              </div>
+            </div>
+            <p className="text-[6.5pt] text-center">
+              {PHARMACY_DETAILS.name} · {PHARMACY_DETAILS.website}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Packing slip: A4 */}
+      {showSlip && (
+        <div className="bg-white p-8 rounded-xl shadow-md max-w-3xl print:shadow-none print:rounded-none print:p-0 print:max-w-none">
+          <header className="flex justify-between items-start border-b-4 border-pink-400 pb-4">
+            <div>
+              <h1 className="text-2xl font-bold">Packing Slip</h1>
+              <p className="text-gray-600">{PHARMACY_DETAILS.name}</p>
+            </div>
+            <div className="text-right text-sm text-gray-600">
+              <p>Order Ref: {reference}</p>
+              <p>Requested: {formatDate(request.createdAt)}</p>
+              <p>Packed: {dispensedOn}</p>
+            </div>
+          </header>
+
+          <section className="mt-6 grid grid-cols-2 gap-8">
+            <div>
+              <h2 className="text-sm font-bold uppercase text-gray-500 mb-2">
+                Ship To
+              </h2>
+              <p className="font-semibold">{getFullName(patient)}</p>
+              <p>{patient.postcode || "No postcode on file"}</p>
+              <p>{patient.phoneNumber}</p>
+            </div>
+            <div>
+              <h2 className="text-sm font-bold uppercase text-gray-500 mb-2">
+                Shipping
+              </h2>
+              <p>Courier: {request.courier || "Not assigned"}</p>
+              <p>Tracking: {request.trackingNumber || "Not provided"}</p>
+            </div>
+          </section>
+
+          <table className="w-full mt-8 border border-gray-300 text-left">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="p-2 border border-gray-300">Item</th>
+                <th className="p-2 border border-gray-300">Service</th>
+                <th className="p-2 border border-gray-300 text-center">Packs</th>
+                <th className="p-2 border border-gray-300 text-center">
+                  Tablets
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="p-2 border border-gray-300">{product}</td>
+                <td className="p-2 border border-gray-300">{service.label}</td>
+                <td className="p-2 border border-gray-300 text-center">
+                  {packs}
+                </td>
+                <td className="p-2 border border-gray-300 text-center">
+                  {tablets}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="mt-2 text-sm text-gray-600">Quantity: {quantity}</p>
+
+          <section className="mt-12 grid grid-cols-2 gap-8 text-sm">
+            <div>
+              <p className="border-t border-gray-500 pt-1">Packed by</p>
+            </div>
+            <div>
+              <p className="border-t border-gray-500 pt-1">Checked by</p>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DispensingPage;
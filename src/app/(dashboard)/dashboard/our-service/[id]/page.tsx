@@ -1,13 +1,36 @@
 "use client";
 
 import {
-  useGetPopByIdQuery,
-  useGetCocpByIdQuery,
-  useUpdatePopDeliveryStatusMutation,
-  useUpdateCocpDeliveryStatusMutation,
+  useGetPatientServiceRequestsQuery,
+  useGetServiceRequestByIdQuery,
+  useUpdateServiceRequestStatusMutation,
 } from "@/api/serviceApi";
-import { useGetAllUserQuery } from "@/api/userApi";
-import { Pop, Cocp, User, DeliveryStatus } from "@/types";
+import {
+  COMMON_DETAIL_FIELDS,
+  DetailValue,
+  evaluateServiceRequest,
+  getServiceDefinition,
+  isServiceType,
+} from "@/config/services";
+import { AssignmentControl } from "@/components/Service/AssignmentControl";
+import { ClinicalFlags } from "@/components/Service/ClinicalFlags";
+import { CocpTrend } from "@/components/Service/CocpTrend";
+import { DecisionModal } from "@/components/Service/DecisionModal";
+import { DecisionHistory } from "@/components/Service/DecisionHistory";
+import { DeliveryManager } from "@/components/Service/DeliveryManager";
+import { DrugInteractions } from "@/components/Service/DrugInteractions";
+import { DELIVERY_STATUS_META } from "@/config/delivery";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { getReorderDueDate, getReorderStatus } from "@/utils/reorder";
+import { REORDER_STATUS_META } from "@/config/reorder";
+import { getCocpMeasurements } from "@/utils/cocpReview";
+import { confirmAccept } from "@/utils/acceptGuard";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  User,
+  DecisionStatus,
+  ServiceDecisionInput,
+} from "@/types";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import Image from "next/image";
 import {
@@ -20,6 +43,12 @@ import {
   Pill,
   User as UserIcon,
   Truck,
+  Stethoscope,
+  ClipboardList,
+  HeartPulse,
+  UserCheck,
+  Printer,
+  Tag,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import Link from "next/link";
@@ -31,7 +60,7 @@ const DetailItem = ({
   value,
 }: {
   label: string;
-  value?: string | string[] | boolean | number | null;
+  value?: DetailValue;
 }) => {
   let displayValue: React.ReactNode = "Not Provided";
 
@@ -65,40 +94,33 @@ const ServiceDetailsPage = () => {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { can } = usePermissions();
 
   const id = params.id as string;
-  const type = searchParams.get("type"); // 'pop' or 'cocp'
-
-  // Conditionally fetch data based on the 'type' query parameter
-  const {
-    data: popResponse,
-    isLoading: isPopLoading,
-    isError: isPopError,
-  } = useGetPopByIdQuery(id, { skip: type !== "pop" });
-  const {
-    data: cocpResponse,
-    isLoading: isCocpLoading,
-    isError: isCocpError,
-  } = useGetCocpByIdQuery(id, { skip: type !== "cocp" });
+  const typeParam = searchParams.get("type"); // a registered service type, e.g. 'pop'
+  const type = isServiceType(typeParam) ? typeParam : null;
 
-  // Fetch staff members
-  const { data: staffResponse, isLoading: isStaffLoading } = useGetAllUserQuery({
-    isStaff: true,
-    limit: 1000,
-  });
-  const staffList = staffResponse?.data || [];
+  // Fetch the request from the service named by the 'type' query parameter
+  const { data: response, isLoading } = useGetServiceRequestByIdQuery(
+    { service: type!, id },
+    { skip: !type }
+  );
 
-  const [selectedStaff, setSelectedStaff] = useState<string>("");
+  const [decisionStatus, setDecisionStatus] = useState<DecisionStatus | null>(
+    null
+  );
 
-  const [updatePopStatus, { isLoading: isPopUpdateLoading }] =
-    useUpdatePopDeliveryStatusMutation();
-  const [updateCocpStatus, { isLoading: isCocpUpdateLoading }] =
-    useUpdateCocpDeliveryStatusMutation();
-  const isUpdating = isPopUpdateLoading || isCocpUpdateLoading;
+  const [updateStatus, { isLoading: isUpdatingStatus }] =
+    useUpdateServiceRequestStatusMutation();
 
-  const isLoading = isPopLoading || isCocpLoading;
-  const isError = isPopError || isCocpError;
-  const response = type === "pop" ? popResponse : cocpResponse;
+  // COCP readings are compared against the patient's earlier requests
+  const patientRef = response?.success ? response.data.userId : undefined;
+  const patientId =
+    typeof patientRef === "object" ? patientRef._id : patientRef;
+  const { data: patientHistory = [], isLoading: isHistoryLoading } =
+    useGetPatientServiceRequestsQuery(patientId!, {
+      skip: type !== "cocp" || !patientId,
+    });
 
   if (isLoading)
     return (
@@ -119,9 +141,19 @@ const ServiceDetailsPage = () => {
       </div>
     );
 
-  const requestData = response.data as Pop | Cocp;
+  const requestData = response.data;
   const user = requestData.userId as User;
-  const requestType = type.toUpperCase();
+  const service = getServiceDefinition(type);
+  const requestType = service.label;
+  const clinicalFlags = evaluateServiceRequest(requestData);
+  const canDecide =
+    requestData.status === "pending" && can("requests:decide");
+  const reorderDueDate = getReorderDueDate(requestData);
+  const reorderStatus = getReorderStatus(requestData);
+  const reorderDueLabel = reorderDueDate
+    ? `${reorderDueDate.toLocaleDateString("en-GB")} (${REORDER_STATUS_META[reorderStatus ?? "ok"].label
+    })`
+    : null;
 
   const joinedOn = new Date(user.createdAt!).toLocaleDateString("en-US", {
     year: "numeric",
@@ -138,37 +170,36 @@ const ServiceDetailsPage = () => {
     })
     : null;
 
-  const handleUpdateDeliveryStatus = async (
-    newStatus: DeliveryStatus.Started | DeliveryStatus.Done
-  ) => {
-    if (newStatus === DeliveryStatus.Done && !selectedStaff) {
-      toast.error("Please select a staff member who delivered the service.");
+  const openDecisionForm = async (status: DecisionStatus) => {
+    if (
+      status === "accept" &&
+      !(await confirmAccept(requestData, patientHistory))
+    )
       return;
-    }
-
-    // Find the staff name from the ID if needed, or just pass the name if the value is the name.
-    // The requirement says "their name will be shown in dropdown... and sent the name choosen"
-    // Assuming selectedStaff holds the name. If it holds ID, we need to find the name.
-    // Let's assume the dropdown values are names for simplicity as per "sent the name choosen".
-
-    const promise =
-      type === "pop"
-        ? updatePopStatus({
-          id,
-          deliveryStatus: newStatus,
-          deliveredBy: newStatus === DeliveryStatus.Done ? selectedStaff : undefined,
-        }).unwrap()
-        : updateCocpStatus({
-          id,
-          deliveryStatus: newStatus,
-          deliveredBy: newStatus === DeliveryStatus.Done ? selectedStaff : undefined,
-        }).unwrap();
+    setDecisionStatus(status);
+  };
 
-    toast.promise(promise as any, {
-      loading: "Updating delivery status...",
-      success: "Status updated successfully!",
-      error: "Failed to update status.",
-    });
+  const handleStatusUpdate = async (decision: ServiceDecisionInput) => {
+    const actionText = decision.status === "accept" ? "accept" : "decline";
+    try {
+      const response = await updateStatus({
+        service: type,
+        id,
+        ...decision,
+      }).unwrap();
+      toast.success(
+        response.message || `Request successfully ${actionText}ed.`
+      );
+      setDecisionStatus(null);
+    } catch (err) {
+      console.error(`Failed to ${actionText} request:`, err);
+      toast.error(
+        getApiErrorMessage(
+          err,
+          `An error occurred while trying to ${actionText} the request.`
+        )
+      );
+    }
   };
 
   return (
@@ -187,12 +218,30 @@ const ServiceDetailsPage = () => {
             {requestType} Request Details
           </h1>
         </div>
-        <Link
-          href="/dashboard/messages"
-          className="bg-pink-200 text-pink-800 hover:bg-pink-400 hover:text-white px-4 py-2 rounded-lg transition"
-        >
-          Send Message
-        </Link>
+        <div className="flex gap-3">
+          {requestData.status === "accept" && can("requests:dispatch") && (
+            <Link
+              href={`/dashboard/our-service/${id}/dispensing?type=${type}`}
+              className="flex items-center gap-2 bg-green-100 text-green-700 hover:bg-green-200 px-4 py-2 rounded-lg transition"
+            >
+              <Tag size={18} />
+              Label & Slip
+            </Link>
+          )}
+          <Link
+            href={`/dashboard/our-service/${id}/print?type=${type}`}
+            className="flex items-center gap-2 bg-fuchsia-100 text-fuchsia-700 hover:bg-fuchsia-200 px-4 py-2 rounded-lg transition"
+          >
+            <Printer size={18} />
+            Print / PDF
+          </Link>
+          <Link
+            href="/dashboard/messages"
+            className="bg-pink-200 text-pink-800 hover:bg-pink-400 hover:text-white px-4 py-2 rounded-lg transition"
+          >
+            Send Message
+          </Link>
+        </div>
       </div>
 
       {/* Main Content Card */}
@@ -233,42 +282,89 @@ const ServiceDetailsPage = () => {
           </div>
         </section>
 
+        {/* Assignment Section */}
+        <section>
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
+            <UserCheck /> Assignment
+          </h2>
+          <div className="pb-6 border-b border-gray-200">
+            <AssignmentControl key={requestData._id} request={requestData} />
+          </div>
+        </section>
+
+        {/* Clinical Review Section */}
+        {(service.evaluate || canDecide) && (
+          <section>
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
+              <Stethoscope /> Clinical Review
+            </h2>
+            <div className="flex flex-col lg:flex-row gap-6 pb-6 border-b border-gray-200">
+              {service.evaluate && (
+                <div className="flex-1 space-y-6">
+                  <ClinicalFlags flags={clinicalFlags} />
+                  {service.medicines && (
+                    <DrugInteractions drugs={service.medicines(requestData)} />
+                  )}
+                </div>
+              )}
+              {canDecide && (
+                <div className="flex lg:flex-col gap-3 lg:w-48">
+                  <button
+                    onClick={() => openDecisionForm("accept")}
+                    disabled={isUpdatingStatus || isHistoryLoading}
+                    className="flex-1 px-4 py-2 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => openDecisionForm("decline")}
+                    disabled={isUpdatingStatus}
+                    className="flex-1 px-4 py-2 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+                  >
+                    Decline
+                  </button>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* BP & BMI Trend Section */}
+        {type === "cocp" && (
+          <section>
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
+              <HeartPulse /> Blood Pressure & BMI Trend
+            </h2>
+            <div className="pb-6 border-b border-gray-200">
+              {isHistoryLoading ? (
+                <p className="text-gray-500">Loading previous readings...</p>
+              ) : (
+                <CocpTrend
+                  measurements={getCocpMeasurements(
+                    patientHistory.some((req) => req._id === requestData._id)
+                      ? patientHistory
+                      : [...patientHistory, requestData]
+                  )}
+                />
+              )}
+            </div>
+          </section>
+        )}
+
         {/* Request Details Section */}
         <section>
           <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
             <Pill /> Contraception Request Details
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {/* Common Fields from requestData */}
-            <DetailItem label="Consent Given" value={requestData.consent} />
-            <DetailItem
-              label="Consent to Share with GP"
-              value={requestData.shareConsent}
-            />
-            <DetailItem
-              label="Wants to Speak with Specialist"
-              value={requestData.speakWithSpecialist}
-            />
-            <DetailItem
-              label="Medical History"
-              value={requestData.medicalHistory}
-            />
-            <DetailItem
-              label="Medical Details"
-              value={requestData.medicalDetails}
-            />
-            <DetailItem
-              label="Currently Pregnant"
-              value={requestData.isPregnant}
-            />
-            <DetailItem
-              label="Exclusions Noted"
-              value={requestData.exclusions}
-            />
-            <DetailItem
-              label="Appointment Needed"
-              value={requestData.needAppointment}
-            />
+            {/* Answers common to every service */}
+            {COMMON_DETAIL_FIELDS.map((field) => (
+              <DetailItem
+                key={field.label}
+                label={field.label}
+                value={field.value(requestData)}
+              />
+            ))}
             <DetailItem
               label="Request Status"
               value={
@@ -281,88 +377,26 @@ const ServiceDetailsPage = () => {
               label="Delivery Status"
               value={
                 requestData.deliveryStatus
-                  ? requestData.deliveryStatus.charAt(0).toUpperCase() +
-                  requestData.deliveryStatus.slice(1)
+                  ? DELIVERY_STATUS_META[requestData.deliveryStatus]?.label
                   : "Pending"
               }
             />
 
             {requestData.status === "accept" && (
-              <section>
-                <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
-                  <Truck /> Delivery Management
-                </h2>
-                <div className="p-6 bg-gray-50 rounded-lg border border-gray-200 flex flex-col gap-6">
-                  <div className="flex flex-col sm:flex-row items-center justify-between gap-6">
-                    <div>
-                      <p className="text-sm text-gray-500">
-                        Current Delivery Status
-                      </p>
-                      <p className="text-lg font-bold text-pink-600 mt-1 capitalize">
-                        {requestData.deliveryStatus || "Pending"}
-                      </p>
-                      {requestData.deliveredBy && (
-                        <p className="text-sm text-gray-600 mt-1">
-                          Delivered by: <span className="font-medium">{requestData.deliveredBy}</span>
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <button
-                        onClick={() =>
-                          handleUpdateDeliveryStatus(DeliveryStatus.Started)
-                        }
-                        disabled={
-                          isUpdating ||
-                          requestData.deliveryStatus === "started" ||
-                          requestData.deliveryStatus === "done"
-                        }
-                        className="px-4 py-2 bg-blue-500 text-white font-semibold rounded-lg hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
-                      >
-                        {isUpdating ? "Updating..." : "Mark as Started"}
-                      </button>
-                    </div>
-                  </div>
-
-                  {/* Staff Selection and Done Button */}
-                  {requestData.deliveryStatus !== DeliveryStatus.Done && (
-                    <div className="flex flex-col sm:flex-row items-end gap-4 border-t pt-4 border-gray-200">
-                      <div className="w-full sm:w-auto flex-grow">
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Delivered By (Staff)
-                        </label>
-                        <select
-                          value={selectedStaff}
-                          onChange={(e) => setSelectedStaff(e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500"
-                          disabled={isUpdating || isStaffLoading}
-                        >
-                          <option value="">Select Staff</option>
-                          {staffList.map((staff) => (
-                            <option
-                              key={staff._id}
-                              value={`${staff.firstName} ${staff.surname || ""}`.trim()}
-                            >
-                              {staff.firstName} {staff.surname}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
-                      <button
-                        onClick={() =>
-                          handleUpdateDeliveryStatus(DeliveryStatus.Done)
-                        }
-                        disabled={
-                          isUpdating || !selectedStaff
-                        }
-                        className="w-full sm:w-auto px-4 py-2 bg-green-500 text-white font-semibold rounded-lg hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
-                      >
-                        {isUpdating ? "Updating..." : "Mark as Done"}
-                      </button>
-                    </div>
-                  )}
-                </div>
-              </section>
+              <>
+                <DetailItem
+                  label="Supply Issued"
+                  value={
+                    requestData.suppliedMonths
+                      ? `${requestData.suppliedMonths} months`
+                      : null
+                  }
+                />
+                <DetailItem
+                  label="Reorder Due"
+                  value={reorderDueLabel}
+                />
+              </>
             )}
 
             {/* NEW: User-specific details */}
@@ -375,49 +409,44 @@ const ServiceDetailsPage = () => {
               value={user.contraception}
             />
 
-            {/* Conditional Fields for POP vs COCP */}
-            {type === "pop" && (
+            {/* Service-specific fields from the registry */}
+            {service.detailFields.map((field) => (
               <DetailItem
-                label="POP Choice"
-                value={(requestData as Pop).popOptions}
+                key={field.label}
+                label={field.label}
+                value={field.value(requestData)}
               />
-            )}
-            {type === "cocp" && (
-              <>
-                <DetailItem
-                  label="COCP Choice"
-                  value={(requestData as Cocp).cocp}
-                />
-                <DetailItem
-                  label="Other Drugs"
-                  value={(requestData as Cocp).drugs}
-                />
-                <DetailItem
-                  label="Blood Pressure Status"
-                  value={(requestData as Cocp).bloodPreasureStatus}
-                />
-                <DetailItem label="BMI" value={(requestData as Cocp).bmi} />
-                <DetailItem
-                  label="Systolic BP"
-                  value={(requestData as Cocp).systolic}
-                />
-                <DetailItem
-                  label="Diastolic BP"
-                  value={(requestData as Cocp).diastolic}
-                />
-                <DetailItem
-                  label="Weight Recently Checked"
-                  value={(requestData as Cocp).weightChecked}
-                />
-                <DetailItem
-                  label="Additional Comments"
-                  value={(requestData as Cocp).comment}
-                />
-              </>
-            )}
+            ))}
           </div>
         </section>
+
+        {/* Delivery Management Section */}
+        {requestData.status === "accept" && (
+          <section>
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
+              <Truck /> Delivery Management
+            </h2>
+            <DeliveryManager key={requestData._id} request={requestData} />
+          </section>
+        )}
+
+        {/* Decision History Section */}
+        <section>
+          <h2 className="text-xl font-semibold mb-6 flex items-center gap-3">
+            <ClipboardList /> Decision History
+          </h2>
+          <DecisionHistory decisions={requestData.decisions || []} />
+        </section>
       </div>
+
+      <DecisionModal
+        isOpen={decisionStatus !== null}
+        status={decisionStatus ?? "accept"}
+        subtitle={`${user.firstName} ${user.surname || ""}`.trim()}
+        isSubmitting={isUpdatingStatus}
+        onClose={() => setDecisionStatus(null)}
+        onSubmit={handleStatusUpdate}
+      />
     </div>
   );
 };
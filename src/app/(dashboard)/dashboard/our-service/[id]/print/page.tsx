@@ -0,0 +1,253 @@
+"use client";
+
+import { useGetServiceRequestByIdQuery } from "@/api/serviceApi";
+import {
+  COMMON_DETAIL_FIELDS,
+  DetailValue,
+  evaluateServiceRequest,
+  getServiceDefinition,
+  isServiceType,
+} from "@/config/services";
+import { DELIVERY_STATUS_META, normalizeDeliveryStatus } from "@/config/delivery";
+import {
+  getDecisionReasonLabel,
+  getFollowUpActionLabel,
+} from "@/config/decisionReasons";
+import { User } from "@/types";
+import { getFullName, resolveStaffReference } from "@/utils/staff";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+
+const formatValue = (value?: DetailValue) => {
+  if (value === true) return "Yes";
+  if (value === false) return "No";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "None";
+  if (value === null || value === undefined || value === "") return "Not Provided";
+  return String(value);
+};
+
+const formatDate = (isoString?: string, withTime = false) => {
+  if (!isoString) return "N/A";
+  const date = new Date(isoString);
+  return withTime
+    ? date.toLocaleString("en-GB")
+    : date.toLocaleDateString("en-GB");
+};
+
+// Label/value row used throughout the printed summary
+const SummaryRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="grid grid-cols-3 gap-4 py-1.5 border-b border-gray-100 break-inside-avoid">
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="col-span-2 font-medium whitespace-pre-line">{value}</dd>
+  </div>
+);
+
+const SummarySection = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <section className="mt-8 break-inside-avoid-page">
+    <h2 className="text-lg font-bold border-b-2 border-gray-800 pb-1 mb-3">
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+const ConsultationSummaryPage = () => {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+
+  const id = params.id as string;
+  const typeParam = searchParams.get("type");
+  const type = isServiceType(typeParam) ? typeParam : null;
+
+  const { data: response, isLoading } = useGetServiceRequestByIdQuery(
+    { service: type!, id },
+    { skip: !type }
+  );
+
+  if (isLoading)
+    return (
+      <div className="p-8 text-center text-pink-500">
+        Loading consultation summary...
+      </div>
+    );
+  if (!type || !response?.success)
+    return (
+      <div className="p-8 text-center text-red-500">
+        Could not find the requested service.
+      </div>
+    );
+
+  const request = response.data;
+  const patient = request.userId as User;
+  const service = getServiceDefinition(type);
+  const clinicalFlags = evaluateServiceRequest(request);
+  const decisions = [...(request.decisions || [])].sort(
+    (a, b) => new Date(a.decidedAt).getTime() - new Date(b.decidedAt).getTime()
+  );
+  const deliveryStatus = normalizeDeliveryStatus(request.deliveryStatus);
+
+  return (
+    <div className="bg-white text-gray-900 max-w-4xl mx-auto p-8 shadow-md rounded-xl print:shadow-none print:rounded-none print:p-0 print:max-w-none">
+      {/* Screen-only toolbar */}
+      <div className="flex justify-between items-center mb-8 print:hidden">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-2 text-sm text-gray-500 hover:text-pink-500"
+        >
+          <ArrowLeft size={16} />
+          Back to Request
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 px-4 py-2 bg-pink-500 text-white font-semibold rounded-lg hover:bg-pink-600 transition"
+        >
+          <Printer size={18} />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      <header className="flex justify-between items-start border-b-4 border-pink-400 pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Consultation Summary</h1>
+          <p className="text-gray-600">{service.title}</p>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          <p>Request ID: {request._id}</p>
+          <p>Submitted: {formatDate(request.createdAt, true)}</p>
+          <p>Printed: {new Date().toLocaleString("en-GB")}</p>
+        </div>
+      </header>
+
+      <SummarySection title="Patient Details">
+        <dl>
+          <SummaryRow label="Name" value={getFullName(patient)} />
+          <SummaryRow label="Date of Birth" value={formatDate(patient.dateOfBirth)} />
+          <SummaryRow label="NHS Number" value={formatValue(patient.nhs)} />
+          <SummaryRow label="Sex" value={formatValue(patient.sex)} />
+          <SummaryRow label="Gender" value={formatValue(patient.gender)} />
+          <SummaryRow label="Email" value={formatValue(patient.email)} />
+          <SummaryRow label="Phone" value={formatValue(patient.phoneNumber)} />
+          <SummaryRow label="Postcode" value={formatValue(patient.postcode)} />
+          <SummaryRow
+            label="Current Contraception"
+            value={formatValue(patient.contraception)}
+          />
+        </dl>
+      </SummarySection>
+
+      <SummarySection title="Questionnaire Answers">
+        <dl>
+          {[...COMMON_DETAIL_FIELDS, ...service.detailFields].map((field) => (
+            <SummaryRow
+              key={field.label}
+              label={field.label}
+              value={formatValue(field.value(request))}
+            />
+          ))}
+        </dl>
+      </SummarySection>
+
+      {service.evaluate && (
+        <SummarySection title="Clinical Flags">
+          {clinicalFlags.length === 0 ? (
+            <p>No UKMEC flags were raised for this request.</p>
+          ) : (
+            <ul className="list-disc pl-5 space-y-1">
+              {clinicalFlags.map((flag) => (
+                <li key={flag.id}>
+                  <span className="font-semibold">
+                    UKMEC {flag.category} – {flag.title}:
+                  </span>{" "}
+                  {flag.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </SummarySection>
+      )}
+
+      <SummarySection title="Decision">
+        <dl>
+          <SummaryRow
+            label="Current Status"
+            value={
+              request.status.charAt(0).toUpperCase() + request.status.slice(1)
+            }
+          />
+        </dl>
+        {decisions.length === 0 ? (
+          <p className="mt-2">No decision has been recorded yet.</p>
+        ) : (
+          decisions.map((decision, index) => (
+            <dl
+              key={decision._id || index}
+              className="mt-4 pl-3 border-l-4 border-gray-300"
+            >
+              <SummaryRow
+                label="Decision"
+                value={decision.status === "accept" ? "Accepted" : "Declined"}
+              />
+              <SummaryRow
+                label="Decided"
+                value={`${formatDate(decision.decidedAt, true)} by ${resolveStaffReference(decision.decidedBy)?.name || "Unknown"
+                  }`}
+              />
+              {decision.reasonCode && (
+                <SummaryRow
+                  label="Reason"
+                  value={
+                    getDecisionReasonLabel(decision.reasonCode) ??
+                    decision.reasonCode
+                  }
+                />
+              )}
+              {decision.note && (
+                <SummaryRow label="Clinical Note" value={decision.note} />
+              )}
+              {decision.followUpAction && (
+                <SummaryRow
+                  label="Follow-up"
+                  value={
+                    getFollowUpActionLabel(decision.followUpAction) ??
+                    decision.followUpAction
+                  }
+                />
+              )}
+            </dl>
+          ))
+        )}
+      </SummarySection>
+
+      {request.status === "accept" && (
+        <SummarySection title="Supply & Delivery">
+          <dl>
+            <SummaryRow
+              label="Delivery Status"
+              value={DELIVERY_STATUS_META[deliveryStatus]?.label ?? deliveryStatus}
+            />
+            <SummaryRow label="Courier" value={formatValue(request.courier)} />
+            <SummaryRow
+              label="Tracking Number"
+              value={formatValue(request.trackingNumber)}
+            />
+            {request.deliveredBy && (
+              <SummaryRow
+                label="Delivered By"
+                value={resolveStaffReference(request.deliveredBy)?.name || ""}
+              />
+            )}
+          </dl>
+        </SummarySection>
+      )}
+    </div>
+  );
+};
+
+export default ConsultationSummaryPage;
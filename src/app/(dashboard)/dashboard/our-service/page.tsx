@@ -1,17 +1,69 @@
 "use client";
 
 import {
-  useGetPopsQuery,
-  useGetCocpsQuery,
-  useDeletePopMutation,
-  useDeleteCocpMutation,
-  useUpdatePopStatusMutation,
-  useUpdateCocpStatusMutation,
+  useGetServiceRequestsQuery,
+  useLazyGetServiceRequestsQuery,
+  useLazyGetPatientServiceRequestsQuery,
+  useDeleteServiceRequestMutation,
+  useUpdateServiceRequestStatusMutation,
+  useUpdateServiceRequestDeliveryStatusMutation,
 } from "@/api/serviceApi";
-import { Pop, Cocp, User, DeliveryStatus } from "@/types";
+import {
+  SERVICE_TYPES,
+  evaluateServiceRequest,
+  getServiceDefinition,
+  isServiceType,
+} from "@/config/services";
+import { getServiceCsvColumns } from "@/config/exportColumns";
+import { BulkResultSummary } from "@/components/Service/BulkResultSummary";
+import { ClinicalFlags } from "@/components/Service/ClinicalFlags";
+import { DecisionModal } from "@/components/Service/DecisionModal";
+import { DeliveryStatusBadge } from "@/components/Service/DeliveryStatusBadge";
+import { NewRequestsBanner } from "@/components/Service/NewRequestsBanner";
+import { StaffLink } from "@/components/Staff/StaffLink";
+import {
+  COMPLETED_DELIVERY_STATUSES,
+  OPEN_DELIVERY_STATUSES,
+  PROBLEM_DELIVERY_STATUSES,
+  getNextDeliveryStatuses,
+} from "@/config/delivery";
+import {
+  ServiceRequest,
+  ServiceType,
+  User,
+  ServiceQueryParams,
+  ServiceDecisionInput,
+  DecisionStatus,
+  DeliveryStatus,
+  SortOrder,
+} from "@/types";
+import { RootState, useAppDispatch } from "@/store";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  clearNewRequests,
+  setSoundEnabled,
+} from "@/features/serviceQueue/serviceQueueSlice";
+import {
+  BulkActionOptions,
+  BulkResult,
+  runBulkAction,
+} from "@/utils/bulkActions";
+import { getFullName } from "@/utils/staff";
+import { confirmAccept, getBulkAcceptSkipReason } from "@/utils/acceptGuard";
+import { getRecheckBlockReason } from "@/utils/cocpReview";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { downloadCsv, fetchAllPages, getExportFilename } from "@/utils/export";
+import {
+  mergeQueryParams,
+  parsePageParam,
+  parseQueryOption,
+} from "@/utils/queryParams";
+import { Download, Volume2, VolumeX } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useState, useMemo } from "react";
+import { useSelector } from "react-redux";
 import toast from "react-hot-toast";
 import Swal from "sweetalert2";
 
@@ -24,10 +76,12 @@ enum ServiceStatus {
 
 // Enum for the UI tabs
 enum TabStatus {
+  MyQueue = "my-queue",
   Pending = "pending",
   Accept = "accept",
   Decline = "decline",
   Done = "done",
+  Issues = "issues",
 }
 
 // Utility function to format ISO date string
@@ -53,82 +107,224 @@ const formatDateTime = (isoString: string) => {
 // Type for grouped requests
 interface GroupedRequests {
   user: Partial<User>;
-  requests: (Pop | Cocp)[];
+  requests: ServiceRequest[];
 }
 
+// Server-side filters that back each status tab
+// (My Queue is additionally narrowed to the logged-in user)
+const tabFilters: Record<TabStatus, ServiceQueryParams> = {
+  [TabStatus.MyQueue]: { status: ServiceStatus.Pending },
+  [TabStatus.Pending]: { status: ServiceStatus.Pending },
+  [TabStatus.Accept]: {
+    status: ServiceStatus.Accept,
+    deliveryStatus: OPEN_DELIVERY_STATUSES,
+  },
+  [TabStatus.Decline]: { status: ServiceStatus.Decline },
+  [TabStatus.Done]: {
+    status: ServiceStatus.Accept,
+    deliveryStatus: COMPLETED_DELIVERY_STATUSES,
+  },
+  [TabStatus.Issues]: {
+    status: ServiceStatus.Accept,
+    deliveryStatus: PROBLEM_DELIVERY_STATUSES,
+  },
+};
+
+// Tab button that asks the server for its own total (limit 1, read meta.total)
+const StatusTabButton = ({
+  label,
+  isActive,
+  service,
+  filters,
+  onClick,
+}: {
+  label: string;
+  isActive: boolean;
+  service: ServiceType;
+  filters: ServiceQueryParams;
+  onClick: () => void;
+}) => {
+  const { data: countResponse } = useGetServiceRequestsQuery({
+    ...filters,
+    service,
+    page: 1,
+    limit: 1,
+  });
+  const total = countResponse?.meta.total ?? 0;
+
+  return (
+    <button
+      onClick={onClick}
+      className={`py-2 px-6 rounded-lg text-lg font-semibold transition-all duration-200 
+              ${isActive
+          ? "bg-fuchsia-400 text-white shadow-lg"
+          : "bg-gray-100 text-gray-700 hover:bg-fuchsia-200"
+        }`}
+    >
+      {label} ({total})
+    </button>
+  );
+};
+
 const OurServicePage = () => {
-  const [activeServiceTab, setActiveServiceTab] = useState<"POP" | "COCP">(
-    "POP"
+  const currentUserId = useSelector((state: RootState) => state.auth.user?._id);
+  const dispatch = useAppDispatch();
+  const { can } = usePermissions();
+  const { newRequests, soundEnabled } = useSelector(
+    (state: RootState) => state.serviceQueue
   );
-  const [activeStatusTab, setActiveStatusTab] = useState<TabStatus>(
+  // Requests revealed from the "new requests" banner, highlighted in the table
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+
+  // Service, tab, filters and page live in the URL so views can be shared
+  // and bookmarked, e.g. ?service=cocp&tab=pending&from=2025-01-01
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const updateQuery = (changes: Record<string, string | number | undefined>) =>
+    router.replace(`${pathname}${mergeQueryParams(searchParams, changes)}`, {
+      scroll: false,
+    });
+
+  const serviceParam = searchParams.get("service");
+  const activeService: ServiceType = isServiceType(serviceParam)
+    ? serviceParam
+    : "pop";
+  const activeStatusTab = parseQueryOption(
+    searchParams.get("tab"),
+    Object.values(TabStatus),
     TabStatus.Pending
   );
 
   // Pagination state
-  const [popPage, setPopPage] = useState(1);
-  const [cocpPage, setCocpPage] = useState(1);
-  const localLimit = 10;
+  const page = parsePageParam(searchParams.get("page"));
+  const setPage = (nextPage: number) =>
+    updateQuery({ page: nextPage > 1 ? nextPage : undefined });
+  const limit = 10;
 
-  // RTK Query Data Fetching Hooks
-  const popQueryParams = { page: 1, limit: 1000 };
-  const cocpQueryParams = { page: 1, limit: 1000 };
+  // Filter state (search is applied on submit, not on every keystroke)
+  const search = searchParams.get("search") || "";
+  const [searchInput, setSearchInput] = useState(search);
+  const fromDate = searchParams.get("from") || "";
+  const toDate = searchParams.get("to") || "";
+  const sortOrder = parseQueryOption<SortOrder>(
+    searchParams.get("sort"),
+    ["desc", "asc"],
+    "desc"
+  );
 
-  const {
-    data: popResponse,
-    isLoading: isPopLoading,
-    isFetching: isPopFetching,
-    isError: isPopError,
-  } = useGetPopsQuery(popQueryParams, {
-    skip: activeServiceTab !== "POP",
-  });
+  // Request awaiting the accept/decline form
+  const [decisionTarget, setDecisionTarget] = useState<{
+    id: string;
+    status: DecisionStatus;
+    patientName: string;
+  } | null>(null);
+
+  // Bulk selection (ids on the current page) and bulk action state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkDecision, setBulkDecision] = useState<DecisionStatus | null>(
+    null
+  );
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [bulkSummary, setBulkSummary] = useState<{
+    title: string;
+    results: BulkResult[];
+  } | null>(null);
+
+  // Filters shared by the list and the tab counters
+  const sharedFilters: ServiceQueryParams = {
+    search,
+    from: fromDate,
+    to: toDate,
+  };
+
+  const getTabFilters = (tab: TabStatus): ServiceQueryParams =>
+    tab === TabStatus.MyQueue
+      ? { ...tabFilters[tab], assignedTo: currentUserId }
+      : tabFilters[tab];
+
+  // RTK Query Data Fetching Hooks
+  const queryParams: ServiceQueryParams = {
+    ...sharedFilters,
+    ...getTabFilters(activeStatusTab),
+    page,
+    limit,
+    sortBy: "createdAt",
+    sortOrder,
+  };
 
   const {
-    data: cocpResponse,
-    isLoading: isCocpLoading,
-    isFetching: isCocpFetching,
-    isError: isCocpError,
-  } = useGetCocpsQuery(cocpQueryParams, {
-    skip: activeServiceTab !== "COCP",
-  });
+    data: responseData,
+    isLoading,
+    isFetching,
+    isError,
+  } = useGetServiceRequestsQuery({ ...queryParams, service: activeService });
 
   // RTK Query Mutation Hooks
-  const [deletePop] = useDeletePopMutation();
-  const [deleteCocp] = useDeleteCocpMutation();
-  const [updatePopStatus, { isLoading: isUpdatingPop }] =
-    useUpdatePopStatusMutation();
-  const [updateCocpStatus, { isLoading: isUpdatingCocp }] =
-    useUpdateCocpStatusMutation();
+  const [deleteRequest] = useDeleteServiceRequestMutation();
+  const [updateStatus, { isLoading: isUpdatingStatus }] =
+    useUpdateServiceRequestStatusMutation();
+  const [updateDeliveryStatus] =
+    useUpdateServiceRequestDeliveryStatusMutation();
+  const [fetchServiceRequests] = useLazyGetServiceRequestsQuery();
+  const [fetchPatientRequests] = useLazyGetPatientServiceRequestsQuery();
+  const [isExporting, setIsExporting] = useState(false);
 
-  const isUpdatingStatus = isUpdatingPop || isUpdatingCocp;
+  const activeServiceLabel = getServiceDefinition(activeService).label;
+  const hasClinicalChecks = Boolean(
+    getServiceDefinition(activeService).evaluate
+  );
 
   // Event Handlers
-  const handleServiceTabChange = (tab: "POP" | "COCP") => {
-    setActiveServiceTab(tab);
-    setPopPage(1);
-    setCocpPage(1);
+  const handleServiceTabChange = (service: ServiceType) =>
+    updateQuery({ service, page: undefined });
+
+  const handleStatusTabChange = (status: TabStatus) =>
+    updateQuery({ tab: status, page: undefined });
+
+  // Jumps to the pending queue of the most recent new request
+  const handleShowNewRequests = () => {
+    const latest = newRequests[newRequests.length - 1];
+    if (!latest) return;
+    updateQuery({
+      service: latest.service,
+      tab: TabStatus.Pending,
+      sort: undefined,
+      page: undefined,
+    });
+    setHighlightedIds(newRequests.map((req) => req.id));
+    dispatch(clearNewRequests());
   };
 
-  const handleStatusTabChange = (status: TabStatus) => {
-    setActiveStatusTab(status);
-    if (activeServiceTab === "POP") {
-      setPopPage(1);
-    } else {
-      setCocpPage(1);
-    }
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({ search: searchInput.trim(), page: undefined });
   };
 
-  const handleStatusUpdate = async (
-    id: string,
-    status: "accept" | "decline"
-  ) => {
-    const actionText = status === "accept" ? "accept" : "decline";
+  const handleResetFilters = () => {
+    setSearchInput("");
+    updateQuery({
+      search: undefined,
+      from: undefined,
+      to: undefined,
+      sort: undefined,
+      page: undefined,
+    });
+  };
+
+  const handleStatusUpdate = async (decision: ServiceDecisionInput) => {
+    if (!decisionTarget) return;
+    const actionText = decision.status === "accept" ? "accept" : "decline";
     try {
-      const mutation =
-        activeServiceTab === "POP" ? updatePopStatus : updateCocpStatus;
-      const response = await mutation({ id, status }).unwrap();
+      const response = await updateStatus({
+        service: activeService,
+        id: decisionTarget.id,
+        ...decision,
+      }).unwrap();
       toast.success(
         response.message || `Request successfully ${actionText}ed.`
       );
+      setDecisionTarget(null);
     } catch (err: any) {
       console.error(`Failed to ${actionText} request:`, err);
       toast.error(
@@ -138,6 +334,36 @@ const OurServicePage = () => {
     }
   };
 
+  // Exports every request matching the current tab and filters, not just this page
+  const handleExportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllPages((pageNumber) =>
+        fetchServiceRequests({
+          ...queryParams,
+          service: activeService,
+          page: pageNumber,
+          limit: 100,
+        }).unwrap()
+      );
+      if (rows.length === 0) {
+        toast.error("There are no requests to export.");
+        return;
+      }
+      downloadCsv(
+        getExportFilename(`${activeService}-requests-${activeStatusTab}`),
+        rows,
+        getServiceCsvColumns(activeService)
+      );
+      toast.success(`Exported ${rows.length} requests.`);
+    } catch (err) {
+      console.error("Failed to export requests:", err);
+      toast.error(getApiErrorMessage(err, "Failed to export requests."));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDelete = (id: string) => {
     Swal.fire({
       title: "Are you sure?",
@@ -150,8 +376,10 @@ const OurServicePage = () => {
     }).then(async (result) => {
       if (result.isConfirmed) {
         try {
-          const mutation = activeServiceTab === "POP" ? deletePop : deleteCocp;
-          const response = await mutation(id).unwrap();
+          const response = await deleteRequest({
+            service: activeService,
+            id,
+          }).unwrap();
           toast.success(response.message || "Request deleted successfully!");
           Swal.fire("Deleted!", "The request has been removed.", "success");
         } catch (err: any) {
@@ -163,46 +391,26 @@ const OurServicePage = () => {
   };
 
   // Derived State
-  const isLoading = activeServiceTab === "POP" ? isPopLoading : isCocpLoading;
-  const isFetching =
-    activeServiceTab === "POP" ? isPopFetching : isCocpFetching;
-  const isError = activeServiceTab === "POP" ? isPopError : isCocpError;
-  const responseData = activeServiceTab === "POP" ? popResponse : cocpResponse;
-
-  const allRequests = responseData?.data || [];
-
-  // Filter data based on the activeStatusTab
-  const filteredRequests = allRequests.filter((req: Pop | Cocp) => {
-    switch (activeStatusTab) {
-      case TabStatus.Pending:
-        return req.status === ServiceStatus.Pending;
-      case TabStatus.Decline:
-        return req.status === ServiceStatus.Decline;
-      case TabStatus.Accept:
-        return (
-          req.status === ServiceStatus.Accept &&
-          req.deliveryStatus !== DeliveryStatus.Done
-        );
-      case TabStatus.Done:
-        return (
-          req.status === ServiceStatus.Accept &&
-          req.deliveryStatus === DeliveryStatus.Done
-        );
-      default:
-        return false;
-    }
-  });
+  const requests = useMemo(() => responseData?.data || [], [responseData]);
+  // Selection never outlives the page it was made on
+  const selectedRequests = requests.filter((req) =>
+    selectedIds.includes(req._id)
+  );
+  const isAllOnPageSelected =
+    requests.length > 0 && selectedRequests.length === requests.length;
+  const totalPage = responseData?.meta.totalPage || 1;
+  const hasActiveFilters = Boolean(search || fromDate || toDate);
 
   // Helper function to extract user from request
   const getUser = (user: User | string): Partial<User> => {
     return typeof user === "object" ? user : { _id: user };
   };
 
-  // Group requests by user
-  const groupedRequests = useMemo(() => {
+  // Group the current page of requests by user
+  const groupsToDisplay = useMemo(() => {
     const groups: Map<string, GroupedRequests> = new Map();
 
-    filteredRequests.forEach((req: Pop | Cocp) => {
+    requests.forEach((req: ServiceRequest) => {
       const user = getUser(req.userId);
       const userId = user._id || "unknown";
 
@@ -213,140 +421,407 @@ const OurServicePage = () => {
     });
 
     return Array.from(groups.values());
-  }, [filteredRequests]);
+  }, [requests]);
 
-  // Pagination for grouped view (paginate by groups, not individual requests)
-  const currentPage = activeServiceTab === "POP" ? popPage : cocpPage;
-  const setPage = activeServiceTab === "POP" ? setPopPage : setCocpPage;
+  const getPatientLabel = (req: ServiceRequest) => {
+    const user = getUser(req.userId);
+    const name = user.firstName
+      ? getFullName({ firstName: user.firstName, surname: user.surname })
+      : "Unknown patient";
+    return `${name} – ${formatDateTime(req.createdAt || "").date}`;
+  };
 
-  const totalGroups = groupedRequests.length;
-  const totalPage = Math.ceil(totalGroups / localLimit);
-  const startIndex = (currentPage - 1) * localLimit;
-  const endIndex = startIndex + localLimit;
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
 
-  const groupsToDisplay = groupedRequests.slice(startIndex, endIndex);
+  const toggleSelectAllOnPage = () => {
+    setSelectedIds(isAllOnPageSelected ? [] : requests.map((req) => req._id));
+  };
+
+  // A COCP without its own BP/BMI readings can still be accepted on readings
+  // from the patient's earlier requests, so only those load the history.
+  // Null when the history could not be loaded.
+  const loadAcceptHistory = async (
+    req: ServiceRequest
+  ): Promise<ServiceRequest[] | null> => {
+    const patientId = getUser(req.userId)._id;
+    if (!patientId || !getRecheckBlockReason(req)) return [];
+    try {
+      return await fetchPatientRequests(patientId, true).unwrap();
+    } catch (err) {
+      console.error("Failed to load patient history:", err);
+      return null;
+    }
+  };
+
+  const handleRowAccept = async (req: ServiceRequest, patientName: string) => {
+    const history = await loadAcceptHistory(req);
+    if (!history) {
+      toast.error("Could not load the patient's previous readings.");
+      return;
+    }
+    if (!(await confirmAccept(req, history))) return;
+    setDecisionTarget({ id: req._id, status: "accept", patientName });
+  };
+
+  const runBulk = async (
+    title: string,
+    options: Pick<BulkActionOptions<ServiceRequest>, "getSkipReason" | "run">
+  ) => {
+    setIsBulkRunning(true);
+    try {
+      const results = await runBulkAction(selectedRequests, {
+        getId: (req) => req._id,
+        getLabel: getPatientLabel,
+        ...options,
+      });
+      setBulkSummary({ title, results });
+      setSelectedIds([]);
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkDecision = async (decision: ServiceDecisionInput) => {
+    const actionText = decision.status === "accept" ? "Accept" : "Decline";
+    // Loaded one at a time so patients with several selected requests are
+    // fetched once and then served from the cache
+    const histories = new Map<string, ServiceRequest[] | null>();
+    if (decision.status === "accept") {
+      setIsBulkRunning(true);
+      for (const req of selectedRequests) {
+        if (req.status === ServiceStatus.Pending)
+          histories.set(req._id, await loadAcceptHistory(req));
+      }
+    }
+    await runBulk(`Bulk ${actionText} Results`, {
+      getSkipReason: (req) => {
+        if (req.status !== ServiceStatus.Pending)
+          return "Request has already been decided.";
+        if (decision.status !== "accept") return null;
+        const history = histories.get(req._id);
+        return history === null
+          ? "Could not load the patient's previous readings."
+          : getBulkAcceptSkipReason(req, history);
+      },
+      run: (req) =>
+        updateStatus({
+          service: req.serviceType,
+          id: req._id,
+          ...decision,
+        }).unwrap(),
+    });
+    setBulkDecision(null);
+  };
+
+  const handleBulkDelete = async () => {
+    const result = await Swal.fire({
+      title: `Delete ${selectedRequests.length} requests?`,
+      text: "Decided requests will be permanently deleted. Pending requests are skipped.",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, delete them!",
+    });
+    if (!result.isConfirmed) return;
+
+    await runBulk("Bulk Delete Results", {
+      getSkipReason: (req) =>
+        req.status === ServiceStatus.Pending
+          ? "Pending requests must be accepted or declined first."
+          : null,
+      run: (req) =>
+        deleteRequest({ service: req.serviceType, id: req._id }).unwrap(),
+    });
+  };
+
+  const handleBulkMarkDelivered = async () => {
+    const result = await Swal.fire({
+      title: `Mark ${selectedRequests.length} requests as delivered?`,
+      text: "Only requests that are dispatched or out for delivery will be updated.",
+      icon: "question",
+      showCancelButton: true,
+      confirmButtonColor: "#ec4899",
+      confirmButtonText: "Yes, mark delivered",
+    });
+    if (!result.isConfirmed) return;
+
+    await runBulk("Bulk Delivery Results", {
+      getSkipReason: (req) =>
+        getNextDeliveryStatuses(req.deliveryStatus).includes(
+          DeliveryStatus.Delivered
+        )
+          ? null
+          : "Request is not dispatched yet or already completed.",
+      // Courier deliveries keep the courier; otherwise the current user delivered it
+      run: (req) =>
+        updateDeliveryStatus({
+          service: req.serviceType,
+          id: req._id,
+          deliveryStatus: DeliveryStatus.Delivered,
+          deliveredBy: req.courier ? undefined : currentUserId,
+        }).unwrap(),
+    });
+  };
 
   // Status Tab Data
   const statusTabs: { label: string; status: TabStatus }[] = [
+    ...(currentUserId ? [{ label: "My Queue", status: TabStatus.MyQueue }] : []),
     { label: "Pending", status: TabStatus.Pending },
     { label: "Accepted", status: TabStatus.Accept },
     { label: "Declined", status: TabStatus.Decline },
     { label: "Delivery Done", status: TabStatus.Done },
+    { label: "Delivery Issues", status: TabStatus.Issues },
   ];
-
-  // Helper function for tab counts
-  const getTabCount = (status: TabStatus): number => {
-    switch (status) {
-      case TabStatus.Pending:
-        return allRequests.filter((r) => r.status === ServiceStatus.Pending)
-          .length;
-      case TabStatus.Decline:
-        return allRequests.filter((r) => r.status === ServiceStatus.Decline)
-          .length;
-      case TabStatus.Accept:
-        return allRequests.filter(
-          (r) =>
-            r.status === ServiceStatus.Accept &&
-            r.deliveryStatus !== DeliveryStatus.Done
-        ).length;
-      case TabStatus.Done:
-        return allRequests.filter(
-          (r) =>
-            r.status === ServiceStatus.Accept &&
-            r.deliveryStatus === DeliveryStatus.Done
-        ).length;
-      default:
-        return 0;
-    }
-  };
+  const activeTabLabel =
+    statusTabs.find((tab) => tab.status === activeStatusTab)?.label ?? "";
 
   // Component Render
   return (
     <div>
-      {/* Service Tabs (POP/COCP) */}
+      {/* Service Tabs */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-10 mb-8">
-        <div
-          onClick={() => handleServiceTabChange("POP")}
-          className={`cursor-pointer rounded-xl shadow-md p-6 border-b-2 border-gray-400 group transition-all duration-300 ${activeServiceTab === "POP"
-              ? "bg-pink-300 text-white"
-              : "bg-white hover:bg-pink-200"
-            }`}
-        >
-          <p
-            className={`text-md font-medium ${activeServiceTab === "POP"
-                ? "text-white"
-                : "text-gray-600 group-hover:text-white"
-              }`}
-          >
-            Request
-          </p>
-          <h2
-            className={`text-2xl font-bold ${activeServiceTab === "POP"
-                ? "text-white"
-                : "text-pink-400 group-hover:text-white"
-              }`}
-          >
-            Progesterone Only Pill (POP)
-          </h2>
-        </div>
-
-        <div
-          onClick={() => handleServiceTabChange("COCP")}
-          className={`cursor-pointer rounded-xl shadow-md p-6 border-b-2 border-gray-400 group transition-all duration-300 ${activeServiceTab === "COCP"
-              ? "bg-pink-300 text-white"
-              : "bg-white hover:bg-pink-200"
-            }`}
-        >
-          <p
-            className={`text-md font-medium ${activeServiceTab === "COCP"
-                ? "text-white"
-                : "text-gray-600 group-hover:text-white"
-              }`}
-          >
-            Request
-          </p>
-          <h2
-            className={`text-2xl font-bold ${activeServiceTab === "COCP"
-                ? "text-white"
-                : "text-pink-400 group-hover:text-white"
-              }`}
-          >
-            Combined Contraceptive Pill (COCP)
-          </h2>
-        </div>
+        {SERVICE_TYPES.map((service) => {
+          const isActive = activeService === service;
+          return (
+            <div
+              key={service}
+              onClick={() => handleServiceTabChange(service)}
+              className={`cursor-pointer rounded-xl shadow-md p-6 border-b-2 border-gray-400 group transition-all duration-300 ${isActive
+                  ? "bg-pink-300 text-white"
+                  : "bg-white hover:bg-pink-200"
+                }`}
+            >
+              <p
+                className={`text-md font-medium ${isActive
+                    ? "text-white"
+                    : "text-gray-600 group-hover:text-white"
+                  }`}
+              >
+                Request
+              </p>
+              <h2
+                className={`text-2xl font-bold ${isActive
+                    ? "text-white"
+                    : "text-pink-400 group-hover:text-white"
+                  }`}
+              >
+                {getServiceDefinition(service).title}
+              </h2>
+            </div>
+          );
+        })}
       </div>
 
+      <NewRequestsBanner
+        count={newRequests.length}
+        onShow={handleShowNewRequests}
+        onDismiss={() => dispatch(clearNewRequests())}
+      />
+
       {/* Status Tabs */}
-      <div className="flex justify-center flex-wrap gap-4 mb-16">
+      <div className="flex justify-center flex-wrap gap-4 mb-8">
         {statusTabs.map((tab) => (
-          <button
+          <StatusTabButton
             key={tab.status}
+            label={tab.label}
+            isActive={activeStatusTab === tab.status}
+            service={activeService}
+            filters={{ ...sharedFilters, ...getTabFilters(tab.status) }}
             onClick={() => handleStatusTabChange(tab.status)}
-            className={`py-2 px-6 rounded-lg text-lg font-semibold transition-all duration-200 
-              ${activeStatusTab === tab.status
-                ? "bg-fuchsia-400 text-white shadow-lg"
-                : "bg-gray-100 text-gray-700 hover:bg-fuchsia-200"
-              }`}
+          />
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="p-4 bg-white shadow-md rounded-md text-gray-800 flex flex-wrap items-end gap-4">
+        <form onSubmit={handleSearchSubmit} className="flex-1 min-w-[220px]">
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            Search Patient
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Name, email or phone"
+              className="w-full px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-pink-400 text-white rounded-md hover:bg-pink-500 transition-colors"
+            >
+              Search
+            </button>
+          </div>
+        </form>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) =>
+              updateQuery({ from: e.target.value, page: undefined })
+            }
+            className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) =>
+              updateQuery({ to: e.target.value, page: undefined })
+            }
+            className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            Sort
+          </label>
+          <select
+            value={sortOrder}
+            onChange={(e) =>
+              updateQuery({
+                sort: e.target.value === "asc" ? "asc" : undefined,
+                page: undefined,
+              })
+            }
+            className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
           >
-            {tab.label} ({getTabCount(tab.status)})
+            <option value="desc">Newest first</option>
+            <option value="asc">Oldest first</option>
+          </select>
+        </div>
+        {hasActiveFilters && (
+          <button
+            onClick={handleResetFilters}
+            className="px-4 py-2 text-sm text-pink-700 bg-pink-100 rounded-md hover:bg-pink-200"
+          >
+            Clear Filters
           </button>
-        ))}
+        )}
+        {can("requests:export") && (
+          <button
+            onClick={handleExportCsv}
+            disabled={isExporting}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-fuchsia-400 text-white rounded-md hover:bg-fuchsia-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </button>
+        )}
       </div>
 
       {/* Table & Pagination Container */}
       <div className="p-6 bg-white shadow-md rounded-md text-gray-800 my-16 overflow-x-auto">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold">
-            {activeServiceTab} Requests –{" "}
-            {activeStatusTab.charAt(0).toUpperCase() + activeStatusTab.slice(1)}
+            {activeServiceLabel} Requests – {activeTabLabel}
           </h2>
-          {isFetching && (
-            <span className="text-pink-400 text-sm animate-pulse">
-              Updating...
-            </span>
-          )}
+          <div className="flex items-center gap-4">
+            {isFetching && (
+              <span className="text-pink-400 text-sm animate-pulse">
+                Updating...
+              </span>
+            )}
+            <button
+              onClick={() => dispatch(setSoundEnabled(!soundEnabled))}
+              title={
+                soundEnabled
+                  ? "Mute new request sound"
+                  : "Play a sound for new requests"
+              }
+              className="flex items-center gap-1.5 text-sm text-gray-600 hover:text-pink-500"
+            >
+              {soundEnabled ? <Volume2 size={18} /> : <VolumeX size={18} />}
+              Sound {soundEnabled ? "on" : "off"}
+            </button>
+          </div>
         </div>
 
+        {/* Bulk Actions */}
+        {!isLoading && !isError && requests.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 p-3 bg-pink-50 rounded-lg border border-pink-100">
+            <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isAllOnPageSelected}
+                onChange={toggleSelectAllOnPage}
+                className="w-4 h-4 accent-pink-500"
+              />
+              Select all on this page
+            </label>
+            <span className="text-sm text-gray-500">
+              {selectedRequests.length} selected
+            </span>
+            {selectedRequests.length > 0 && (
+              <div className="flex flex-wrap gap-2 ml-auto">
+                {can("requests:decide") && (
+                  <>
+                    <button
+                      onClick={() => setBulkDecision("accept")}
+                      disabled={isBulkRunning}
+                      className="px-3 py-1 bg-green-200 hover:bg-green-500 text-green-800 hover:text-white rounded border border-green-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => setBulkDecision("decline")}
+                      disabled={isBulkRunning}
+                      className="px-3 py-1 bg-yellow-200 hover:bg-yellow-500 text-yellow-800 hover:text-white rounded border border-yellow-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Decline
+                    </button>
+                  </>
+                )}
+                {can("requests:dispatch") && (
+                  <button
+                    onClick={handleBulkMarkDelivered}
+                    disabled={isBulkRunning}
+                    className="px-3 py-1 bg-blue-200 hover:bg-blue-500 text-blue-800 hover:text-white rounded border border-blue-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Mark Delivered
+                  </button>
+                )}
+                {can("requests:delete") && (
+                  <button
+                    onClick={handleBulkDelete}
+                    disabled={isBulkRunning}
+                    className="px-3 py-1 bg-red-200 hover:bg-red-500 text-red-800 hover:text-white rounded border border-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  onClick={() => setSelectedIds([])}
+                  disabled={isBulkRunning}
+                  className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+            {isBulkRunning && (
+              <span className="text-pink-400 text-sm animate-pulse">
+                Processing...
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Grouped Requests View */}
         {isLoading ? (
           <div className="p-4 text-center text-gray-500">
@@ -358,13 +833,16 @@ const OurServicePage = () => {
           </div>
         ) : groupsToDisplay.length === 0 ? (
           <div className="p-4 text-center text-gray-500 italic">
-            No {activeStatusTab} requests found for {activeServiceTab}.
+            No {activeTabLabel.toLowerCase()} requests found for{" "}
+            {activeServiceLabel}.
           </div>
         ) : (
           <div className="space-y-6">
             {groupsToDisplay.map((group) => {
               const user = group.user;
               const userId = user._id || "unknown";
+              const patientName =
+                `${user.firstName || "Unknown"} ${user.surname || ""}`.trim();
 
               return (
                 <div
@@ -404,6 +882,9 @@ const OurServicePage = () => {
                   <table className="w-full">
                     <thead>
                       <tr className="bg-pink-50">
+                        <th className="p-2 border-b border-pink-200 w-10">
+                          <span className="sr-only">Select</span>
+                        </th>
                         <th className="p-2 border-b border-pink-200 text-left">
                           Date
                         </th>
@@ -413,6 +894,14 @@ const OurServicePage = () => {
                         <th className="p-2 border-b border-pink-200 text-left">
                           Delivery Status
                         </th>
+                        <th className="p-2 border-b border-pink-200 text-left">
+                          Assigned To
+                        </th>
+                        {hasClinicalChecks && (
+                          <th className="p-2 border-b border-pink-200 text-left">
+                            Clinical Flags
+                          </th>
+                        )}
                         <th className="p-2 border-b border-pink-200 text-center">
                           Action
                         </th>
@@ -420,7 +909,6 @@ const OurServicePage = () => {
                     </thead>
                     <tbody>
                       {group.requests.map((req) => {
-                        const requestType = activeServiceTab.toLowerCase();
                         const { date, time } = formatDateTime(
                           req.createdAt || ""
                         );
@@ -428,8 +916,20 @@ const OurServicePage = () => {
                         return (
                           <tr
                             key={req._id}
-                            className="hover:bg-gray-50 transition-colors"
+                            className={`hover:bg-gray-50 transition-colors ${highlightedIds.includes(req._id)
+                              ? "bg-pink-50"
+                              : ""
+                              }`}
                           >
+                            <td className="p-3 border-b border-pink-100 text-center">
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.includes(req._id)}
+                                onChange={() => toggleSelected(req._id)}
+                                aria-label={`Select request from ${date}`}
+                                className="w-4 h-4 accent-pink-500"
+                              />
+                            </td>
                             <td className="p-3 border-b border-pink-100">
                               {date}
                             </td>
@@ -437,66 +937,79 @@ const OurServicePage = () => {
                               {time}
                             </td>
                             <td className="p-3 border-b border-pink-100">
-                              <span
-                                className={`px-2 py-1 rounded-full text-xs font-medium ${req.deliveryStatus === DeliveryStatus.Done
-                                    ? "bg-green-100 text-green-700"
-                                    : req.deliveryStatus ===
-                                      DeliveryStatus.Started
-                                      ? "bg-blue-100 text-blue-700"
-                                      : "bg-gray-100 text-gray-700"
-                                  }`}
-                              >
-                                {req.deliveryStatus
-                                  ? req.deliveryStatus.charAt(0).toUpperCase() +
-                                  req.deliveryStatus.slice(1)
-                                  : "Pending"}
-                              </span>
+                              <DeliveryStatusBadge
+                                status={req.deliveryStatus}
+                              />
                             </td>
+                            <td className="p-3 border-b border-pink-100">
+                              <StaffLink
+                                staff={req.assignedTo}
+                                fallback="Unassigned"
+                              />
+                            </td>
+                            {hasClinicalChecks && (
+                              <td className="p-3 border-b border-pink-100">
+                                <ClinicalFlags
+                                  compact
+                                  flags={evaluateServiceRequest(req)}
+                                />
+                              </td>
+                            )}
                             <td className="p-3 border-b border-pink-100">
                               <div className="flex gap-2 justify-center items-center">
                                 {req.status === ServiceStatus.Pending && (
                                   <>
                                     <Link
-                                      href={`/dashboard/our-service/${req._id}?type=${requestType}`}
+                                      href={`/dashboard/our-service/${req._id}?type=${req.serviceType}`}
                                       className="px-3 py-1 bg-blue-200 hover:bg-blue-500 text-blue-800 hover:text-white rounded border border-blue-300 transition-colors"
                                     >
                                       Details
                                     </Link>
-                                    <button
-                                      onClick={() =>
-                                        handleStatusUpdate(req._id, "accept")
-                                      }
-                                      disabled={isUpdatingStatus}
-                                      className="px-3 py-1 bg-green-200 hover:bg-green-500 text-green-800 hover:text-white rounded border border-green-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                    >
-                                      Accept
-                                    </button>
-                                    <button
-                                      onClick={() =>
-                                        handleStatusUpdate(req._id, "decline")
-                                      }
-                                      disabled={isUpdatingStatus}
-                                      className="px-3 py-1 bg-yellow-200 hover:bg-yellow-500 text-yellow-800 hover:text-white rounded border border-yellow-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                    >
-                                      Decline
-                                    </button>
+                                    {can("requests:decide") && (
+                                      <>
+                                        <button
+                                          onClick={() =>
+                                            handleRowAccept(req, patientName)
+                                          }
+                                          disabled={isUpdatingStatus}
+                                          className="px-3 py-1 bg-green-200 hover:bg-green-500 text-green-800 hover:text-white rounded border border-green-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                          Accept
+                                        </button>
+                                        <button
+                                          onClick={() =>
+                                            setDecisionTarget({
+                                              id: req._id,
+                                              status: "decline",
+                                              patientName,
+                                            })
+                                          }
+                                          disabled={isUpdatingStatus}
+                                          className="px-3 py-1 bg-yellow-200 hover:bg-yellow-500 text-yellow-800 hover:text-white rounded border border-yellow-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                          Decline
+                                        </button>
+                                      </>
+                                    )}
                                   </>
                                 )}
                                 {(req.status === ServiceStatus.Accept ||
                                   req.status === ServiceStatus.Decline) && (
                                     <>
                                       <Link
-                                        href={`/dashboard/our-service/${req._id}?type=${requestType}`}
+                                        href={`/dashboard/our-service/${req._id}?type=${req.serviceType}`}
                                         className="px-3 py-1 bg-blue-200 hover:bg-blue-500 text-blue-800 hover:text-white rounded border border-blue-300 transition-colors"
                                       >
                                         Details
                                       </Link>
-                                      <button
-                                        onClick={() => handleDelete(req._id)}
-                                        className="px-3 py-1 bg-red-200 hover:bg-red-500 text-red-800 hover:text-white rounded border border-red-300 transition-colors"
-                                      >
-                                        Delete
-                                      </button>
+                                      {can("requests:delete") && (
+                                        <button
+                                          onClick={() => handleDelete(req._id)}
+                                          className="px-3 py-1 bg-red-200 hover:bg-red-500 text-red-800 hover:text-white rounded border border-red-300 transition-colors"
+                                        >
+                                          Delete
+                                        </button>
+                                      )}
                                     </>
                                   )}
                               </div>
@@ -516,18 +1029,18 @@ const OurServicePage = () => {
         {!isLoading && !isError && totalPage > 1 && (
           <div className="flex justify-end items-center mt-6 space-x-2">
             <button
-              onClick={() => setPage(Math.max(1, currentPage - 1))}
-              disabled={currentPage === 1 || isFetching}
+              onClick={() => setPage(Math.max(1, page - 1))}
+              disabled={page === 1 || isFetching}
               className="px-4 py-2 text-sm font-medium text-pink-700 bg-pink-100 rounded-lg hover:bg-pink-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Previous
             </button>
             <span className="text-gray-700 text-sm">
-              Page {currentPage} of {totalPage}
+              Page {page} of {totalPage}
             </span>
             <button
-              onClick={() => setPage(Math.min(totalPage, currentPage + 1))}
-              disabled={currentPage === totalPage || isFetching}
+              onClick={() => setPage(Math.min(totalPage, page + 1))}
+              disabled={page === totalPage || isFetching}
               className="px-4 py-2 text-sm font-medium text-pink-700 bg-pink-100 rounded-lg hover:bg-pink-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Next
@@ -535,6 +1048,32 @@ const OurServicePage = () => {
           </div>
         )}
       </div>
+
+      {/* Accept/Decline form */}
+      <DecisionModal
+        isOpen={decisionTarget !== null}
+        status={decisionTarget?.status ?? "accept"}
+        subtitle={decisionTarget?.patientName}
+        isSubmitting={isUpdatingStatus}
+        onClose={() => setDecisionTarget(null)}
+        onSubmit={handleStatusUpdate}
+      />
+
+      {/* Bulk accept/decline form: one confirmation for the whole selection */}
+      <DecisionModal
+        isOpen={bulkDecision !== null}
+        status={bulkDecision ?? "accept"}
+        subtitle={`${selectedRequests.length} selected request${selectedRequests.length === 1 ? "" : "s"}`}
+        isSubmitting={isBulkRunning}
+        onClose={() => setBulkDecision(null)}
+        onSubmit={handleBulkDecision}
+      />
+
+      <BulkResultSummary
+        title={bulkSummary?.title ?? ""}
+        results={bulkSummary?.results ?? null}
+        onClose={() => setBulkSummary(null)}
+      />
     </div>
   );
 };
@@ -1,28 +1,58 @@
 "use client";
 import UserStat from "@/components/Dashboard/UserStat";
+import StatCard from "@/components/Dashboard/StatCard";
+import ServiceAnalytics from "@/components/Dashboard/ServiceAnalytics";
+import Demographics from "@/components/Dashboard/Demographics";
+import DashboardRangePicker from "@/components/Dashboard/DashboardRangePicker";
 import { UserCheck, UserPlus, Users, UserX, Ban } from "lucide-react";
 import toast from "react-hot-toast";
 import { User } from "@/types";
 import ActiveUser from "@/components/Dashboard/ActiveUser";
+import StaffWorkloadTable from "@/components/Dashboard/StaffWorkload";
+import ReorderDueList from "@/components/Dashboard/ReorderDueList";
 import { useGetDashboardDataQuery } from "@/api/dashboardApi";
 import { useDispatch } from "react-redux";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { clearTwoFactorUserId } from "@/features/auth/authSlice";
+import {
+  DEFAULT_DASHBOARD_RANGE_PRESET,
+  DashboardRangePreset,
+} from "@/config/dashboardRange";
+import { buildFilterHref } from "@/utils/queryParams";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  formatRangeLabel,
+  getPresetRange,
+  getPreviousRange,
+} from "@/utils/dashboardRange";
 
 const Dashboard = () => {
   const dispatch = useDispatch();
+  const { can } = usePermissions();
 
   useEffect(() => {
     dispatch(clearTwoFactorUserId());
   }, [dispatch]);
   
+  const [rangePreset, setRangePreset] = useState<DashboardRangePreset>(
+    DEFAULT_DASHBOARD_RANGE_PRESET
+  );
+  const [range, setRange] = useState(() =>
+    getPresetRange(DEFAULT_DASHBOARD_RANGE_PRESET)
+  );
+
   const {
     data: dashboardResponse,
     isLoading,
+    isFetching,
     isError,
     error,
     refetch,
-  } = useGetDashboardDataQuery();
+  } = useGetDashboardDataQuery(range);
+  // Same stats for the period before, for the deltas on the stat cards
+  const { data: previousResponse } = useGetDashboardDataQuery(
+    getPreviousRange(range)
+  );
 
   // Handle loading and error states
   if (isLoading) {
@@ -60,7 +90,16 @@ const Dashboard = () => {
     );
   }
 
-  const { stats, monthlyStat, users } = dashboardResponse.data;
+  const { stats, monthlyStat, users, staffWorkload } = dashboardResponse.data;
+  // Stat cards only link to lists the role can open
+  const canViewUsers = can("users:view");
+  const userListHref = (status?: string) =>
+    canViewUsers
+      ? buildFilterHref("/dashboard/user", { status })
+      : undefined;
+  const previousStats = previousResponse?.success
+    ? previousResponse.data.stats
+    : undefined;
 
   const userTableData: User[] = users.map((user) => ({
     _id: user._id,
@@ -82,76 +121,95 @@ const Dashboard = () => {
 
   return (
     <div>
-      {/* Updated grid to support 5 columns on large screens */}
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-16">
-        {/* Total Users */}
-        <div className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group">
-          <div className="p-4 bg-blue-50 rounded-full">
-            <Users className="text-blue-600 w-8 h-8" />
-          </div>
-          <div>
-            <p className="text-gray-600 text-md font-medium">Total Users</p>
-            <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
-              {stats.totalUsers.toLocaleString()}
-            </h2>
-          </div>
-        </div>
-
-        {/* Active Users */}
-        <div className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group">
-          <div className="p-4 bg-green-50 rounded-full">
-            <UserCheck className="text-green-600 w-8 h-8" />
-          </div>
-          <div>
-            <p className="text-gray-600 text-md font-medium">Active Users</p>
-            <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
-              {stats.activeUsers.toLocaleString()}
-            </h2>
-          </div>
-        </div>
+      <DashboardRangePicker
+        preset={rangePreset}
+        range={range}
+        onChange={(preset, nextRange) => {
+          setRangePreset(preset);
+          setRange(nextRange);
+        }}
+      />
 
-        {/* New Requests */}
-        <div className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group">
-          <div className="p-4 bg-yellow-50 rounded-full">
-            <UserPlus className="text-yellow-600 w-8 h-8" />
-          </div>
-          <div>
-            <p className="text-gray-600 text-md font-medium">New Requests</p>
-            <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
-              {stats.newRequests.toLocaleString()}
-            </h2>
-          </div>
-        </div>
+      {isFetching && (
+        <p className="text-pink-400 text-sm animate-pulse mb-4">
+          Updating...
+        </p>
+      )}
 
-        {/* Incomplete Users */}
-        <div className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group">
-          <div className="p-4 bg-orange-50 rounded-full">
-            <UserX className="text-orange-600 w-8 h-8" />
-          </div>
-          <div>
-            <p className="text-gray-600 text-md font-medium">Incomplete</p>
-            <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
-              {stats.incompleteUsers.toLocaleString()}
-            </h2>
-          </div>
-        </div>
-
-        {/* Blocked Users - New Card with Ban icon */}
-        <div className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group">
-          <div className="p-4 bg-red-50 rounded-full">
-            <Ban className="text-red-600 w-8 h-8" />
-          </div>
-          <div>
-            <p className="text-gray-600 text-md font-medium">Blocked Users</p>
-            <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
-              {stats.blockedUsers.toLocaleString()}
-            </h2>
-          </div>
-        </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-16">
+        <StatCard
+          label="Total Users"
+          href={userListHref()}
+          value={stats.totalUsers}
+          previousValue={previousStats?.totalUsers}
+          icon={Users}
+          iconClassName="text-blue-600"
+          iconBgClassName="bg-blue-50"
+        />
+        <StatCard
+          label="Active Users"
+          href={userListHref("active")}
+          value={stats.activeUsers}
+          previousValue={previousStats?.activeUsers}
+          icon={UserCheck}
+          iconClassName="text-green-600"
+          iconBgClassName="bg-green-50"
+        />
+        <StatCard
+          label="New Requests"
+          href={
+            can("requests:view")
+              ? buildFilterHref("/dashboard/our-service", {
+                tab: "pending",
+                from: range.from,
+                to: range.to,
+              })
+              : undefined
+          }
+          value={stats.newRequests}
+          previousValue={previousStats?.newRequests}
+          icon={UserPlus}
+          iconClassName="text-yellow-600"
+          iconBgClassName="bg-yellow-50"
+        />
+        <StatCard
+          label="Incomplete"
+          href={userListHref("incomplete")}
+          value={stats.incompleteUsers}
+          previousValue={previousStats?.incompleteUsers}
+          icon={UserX}
+          iconClassName="text-orange-600"
+          iconBgClassName="bg-orange-50"
+          higherIsBetter={false}
+        />
+        <StatCard
+          label="Blocked Users"
+          href={userListHref("blocked")}
+          value={stats.blockedUsers}
+          previousValue={previousStats?.blockedUsers}
+          icon={Ban}
+          iconClassName="text-red-600"
+          iconBgClassName="bg-red-50"
+          higherIsBetter={false}
+        />
       </div>
 
-      <UserStat monthlyStats={monthlyStat} />
-      <ActiveUser users={userTableData} />
+      <UserStat
+        monthlyStats={monthlyStat}
+        periodLabel={formatRangeLabel(range, range.granularity)}
+      />
+      {can("analytics:view") && (
+        <>
+          <ServiceAnalytics range={range} />
+          <Demographics />
+        </>
+      )}
+      {/* Patient details stay with roles that can view patients */}
+      {canViewUsers && <ReorderDueList />}
+      {staffWorkload && can("requests:assign") && (
+        <StaffWorkloadTable workload={staffWorkload} />
+      )}
+      {canViewUsers && <ActiveUser users={userTableData} />}
     </div>
   );
 };
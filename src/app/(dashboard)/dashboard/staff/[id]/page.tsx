@@ -0,0 +1,198 @@
+"use client";
+
+import { useGetUserByIdQuery } from "@/api/userApi";
+import { useResetUserTwoFactorMutation } from "@/api/authApi";
+import { usePermissions } from "@/hooks/usePermissions";
+import { RootState } from "@/store";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { getFullName } from "@/utils/staff";
+import {
+  ArrowLeft,
+  Calendar,
+  CheckCircle,
+  Mail,
+  Phone,
+  ShieldOff,
+  XCircle,
+} from "lucide-react";
+import Image from "next/image";
+import { useParams, useRouter } from "next/navigation";
+import { useSelector } from "react-redux";
+import toast from "react-hot-toast";
+import Swal from "sweetalert2";
+
+// A reusable component to display staff details neatly
+const DetailItem = ({
+  label,
+  value,
+}: {
+  label: string;
+  value?: string | null | boolean;
+}) => {
+  if (typeof value === "boolean") {
+    return (
+      <div>
+        <p className="text-sm text-gray-500">{label}</p>
+        <div
+          className={`flex items-center gap-2 mt-1 ${value ? "text-green-600" : "text-red-600"
+            }`}
+        >
+          {value ? <CheckCircle size={18} /> : <XCircle size={18} />}
+          <p className="font-semibold">{value ? "Yes" : "No"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="font-semibold text-gray-800 mt-1 capitalize">
+        {value || "Not Provided"}
+      </p>
+    </div>
+  );
+};
+
+const StaffDetailsPage = () => {
+  const params = useParams();
+  const router = useRouter();
+  const id = Array.isArray(params.id) ? params.id[0] : params.id;
+  const { can } = usePermissions();
+  const currentUserId = useSelector((state: RootState) => state.auth.user?._id);
+  const [resetTwoFactor, { isLoading: isResetting }] =
+    useResetUserTwoFactorMutation();
+
+  const {
+    data: staffResponse,
+    isLoading,
+    isError,
+  } = useGetUserByIdQuery(id!, { skip: !id });
+
+  if (isLoading) {
+    return (
+      <p className="p-8 text-center text-pink-500">Loading staff profile...</p>
+    );
+  }
+
+  if (isError || !staffResponse?.success) {
+    return (
+      <p className="p-8 text-center text-red-500">
+        Staff member not found or failed to load.
+      </p>
+    );
+  }
+
+  const staff = staffResponse.data;
+  // Your own authenticator is managed from My Profile
+  const canResetTwoFactor =
+    can("staff:reset-2fa") && staff._id !== currentUserId;
+
+  const handleResetTwoFactor = async () => {
+    const result = await Swal.fire({
+      title: "Reset two-factor authentication?",
+      text: `${getFullName(staff)} will have to set up a new authenticator at their next login, and their recovery codes will stop working.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, reset",
+    });
+    if (!result.isConfirmed) return;
+
+    try {
+      await resetTwoFactor(staff._id).unwrap();
+      toast.success("Two-factor authentication reset.");
+    } catch (err) {
+      console.error("Failed to reset 2FA:", err);
+      toast.error(getApiErrorMessage(err, "Failed to reset 2FA."));
+    }
+  };
+  const joinedOn = staff.createdAt
+    ? new Date(staff.createdAt).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    })
+    : "Unknown";
+
+  return (
+    <div className="p-6 bg-pink-50 min-h-screen text-gray-800">
+      {/* Header */}
+      <div className="mb-8">
+        <button
+          onClick={() => router.back()}
+          className="flex items-center gap-2 text-sm text-gray-500 hover:text-pink-500 mb-2 transition-colors"
+        >
+          <ArrowLeft size={16} />
+          Back
+        </button>
+        <h1 className="text-3xl font-bold text-gray-800">Staff Profile</h1>
+      </div>
+
+      <div className="bg-white p-8 rounded-xl shadow-md">
+        <div className="flex flex-col sm:flex-row items-center gap-6 pb-6 border-b border-gray-200">
+          <Image
+            src={
+              staff.avatar ||
+              "https://i.postimg.cc/4xLZjmW2/dfb6892164e638fc869bc424d651235a519c6d80.png"
+            }
+            alt="Profile Picture"
+            width={100}
+            height={100}
+            className="rounded-full object-cover border-4 border-pink-100"
+          />
+          <div className="text-center sm:text-left">
+            <h2 className="text-2xl font-semibold">{getFullName(staff)}</h2>
+            <div className="flex items-center justify-center sm:justify-start gap-2 text-gray-500 mt-1">
+              <Mail size={16} />
+              <span>{staff.email}</span>
+            </div>
+            <div className="flex items-center justify-center sm:justify-start gap-2 text-gray-500 mt-1">
+              <Phone size={16} />
+              <span>{staff.phoneNumber || "No phone number"}</span>
+            </div>
+            <div className="flex items-center justify-center sm:justify-start gap-2 text-gray-500 mt-1">
+              <Calendar size={16} />
+              <span>Joined on {joinedOn}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-8 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          <DetailItem label="Role" value={staff.role} />
+          <DetailItem label="Account Verified" value={staff.verified} />
+          <DetailItem label="Account Blocked" value={staff.blocked} />
+          {staff.twoFactorEnabled !== undefined && (
+            <DetailItem
+              label="Two-Factor Enabled"
+              value={staff.twoFactorEnabled}
+            />
+          )}
+        </div>
+
+        {canResetTwoFactor && (
+          <div className="mt-8 pt-6 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h3 className="font-semibold">Two-Factor Authentication</h3>
+              <p className="text-sm text-gray-500">
+                Use this if they have lost the phone with their authenticator
+                app.
+              </p>
+            </div>
+            <button
+              onClick={handleResetTwoFactor}
+              disabled={isResetting}
+              className="flex items-center gap-2 px-4 py-2 bg-transparent hover:bg-red-500 text-red-600 hover:text-white rounded border border-red-500 disabled:opacity-50"
+            >
+              <ShieldOff size={18} />
+              {isResetting ? "Resetting..." : "Reset 2FA"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffDetailsPage;
@@ -1,8 +1,21 @@
 "use client";
 
-import { useGetUserByIdQuery } from "@/api/userApi";
-import { useGetPopsQuery, useGetCocpsQuery } from "@/api/serviceApi";
-import { Pop, Cocp, DeliveryStatus } from "@/types";
+import {
+  useGetAllUserQuery,
+  useGetUserActivityQuery,
+  useGetUserByIdQuery,
+} from "@/api/userApi";
+import { useGetPatientServiceRequestsQuery } from "@/api/serviceApi";
+import { useGetPatientMessagesQuery } from "@/api/chatApi";
+import { SERVICE_TYPES, getServiceDefinition } from "@/config/services";
+import { ServiceType } from "@/types";
+import { DeliveryStatusBadge } from "@/components/Service/DeliveryStatusBadge";
+import { getServiceCsvColumns } from "@/config/exportColumns";
+import { downloadCsv, getExportFilename } from "@/utils/export";
+import { buildPatientTimeline } from "@/utils/patientTimeline";
+import { PatientTimeline } from "@/components/User/PatientTimeline";
+import { CocpTrend } from "@/components/Service/CocpTrend";
+import { getCocpMeasurements } from "@/utils/cocpReview";
 import {
   User as UserIcon,
   Calendar,
@@ -12,11 +25,15 @@ import {
   XCircle,
   ArrowLeft,
   Pill,
+  Download,
+  Printer,
+  History,
+  HeartPulse,
 } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 
 // A reusable component to display user details neatly
 const DetailItem = ({
@@ -80,9 +97,7 @@ const UserDetailsPage = () => {
   const router = useRouter();
   const id = Array.isArray(params.id) ? params.id[0] : params.id;
 
-  const [activeServiceTab, setActiveServiceTab] = useState<"POP" | "COCP">(
-    "POP"
-  );
+  const [activeService, setActiveService] = useState<ServiceType>("pop");
 
   const {
     data: userResponse,
@@ -93,22 +108,39 @@ const UserDetailsPage = () => {
     skip: !id,
   });
 
-  // Fetch POP and COCP requests for this user
-  const {
-    data: popResponse,
-    isLoading: isPopLoading,
-  } = useGetPopsQuery(
-    { page: 1, limit: 1000, userId: id },
-    { skip: !id || activeServiceTab !== "POP" }
-  );
+  // Fetch this user's requests across every service
+  const { data: patientRequests = [], isLoading: serviceLoading } =
+    useGetPatientServiceRequestsQuery(id!, { skip: !id });
 
-  const {
-    data: cocpResponse,
-    isLoading: isCocpLoading,
-  } = useGetCocpsQuery(
-    { page: 1, limit: 1000, userId: id },
-    { skip: !id || activeServiceTab !== "COCP" }
+  // Chat messages and account events for the history timeline
+  const { data: patientMessages, isLoading: messagesLoading } =
+    useGetPatientMessagesQuery(id!, { skip: !id });
+  const { data: activityResponse, isLoading: activityLoading } =
+    useGetUserActivityQuery(id!, { skip: !id });
+  // Names staff who appear in the timeline only as ids, e.g. message senders
+  const { data: staffResponse } = useGetAllUserQuery({
+    isStaff: true,
+    limit: 1000,
+  });
+  const staffList = staffResponse?.data;
+
+  const timelineEvents = useMemo(
+    () =>
+      buildPatientTimeline({
+        patientId: id!,
+        requests: patientRequests,
+        messages: patientMessages?.messages ?? [],
+        accountEvents: activityResponse?.success ? activityResponse.data : [],
+        staffList,
+      }),
+    [id, patientRequests, patientMessages, activityResponse, staffList]
+  );
+  const cocpMeasurements = useMemo(
+    () => getCocpMeasurements(patientRequests),
+    [patientRequests]
   );
+  const isTimelineLoading =
+    serviceLoading || messagesLoading || activityLoading;
 
   // Handle Loading State
   if (isLoading) {
@@ -137,11 +169,20 @@ const UserDetailsPage = () => {
   });
 
   // Service requests
-  const serviceLoading = activeServiceTab === "POP" ? isPopLoading : isCocpLoading;
-  const requests: (Pop | Cocp)[] =
-    activeServiceTab === "POP"
-      ? popResponse?.data || []
-      : cocpResponse?.data || [];
+  const activeServiceLabel = getServiceDefinition(activeService).label;
+  const requests = patientRequests.filter(
+    (req) => req.serviceType === activeService
+  );
+
+  // The list endpoint may not populate userId; fill in the loaded patient
+  const handleExportCsv = () => {
+    const rows = patientRequests.map((req) => ({ ...req, userId: user }));
+    downloadCsv(
+      getExportFilename(`patient-${user._id}-requests`),
+      rows,
+      getServiceCsvColumns()
+    );
+  };
 
   return (
     <div className="p-6 bg-pink-50 min-h-screen text-gray-800">
@@ -229,69 +270,84 @@ const UserDetailsPage = () => {
         </div>
       </div>
 
-      {/* Service Requests Section */}
-      <div className="mt-8">
+      {/* COCP BP & BMI Trend Section */}
+      {patientRequests.some((req) => req.serviceType === "cocp") && (
+        <div className="mt-8 p-6 bg-white shadow-md rounded-xl border-b-2 border-gray-400">
+          <h3 className="text-xl font-semibold mb-6 flex items-center gap-3">
+            <HeartPulse /> Blood Pressure & BMI Trend
+          </h3>
+          <CocpTrend measurements={cocpMeasurements} />
+        </div>
+      )}
+
+      {/* Consultation History Section */}
+      <div className="mt-8 p-6 bg-white shadow-md rounded-xl border-b-2 border-gray-400">
         <h3 className="text-xl font-semibold mb-6 flex items-center gap-3">
-          <Pill /> Service Requests
+          <History /> Consultation History
         </h3>
+        <PatientTimeline
+          events={timelineEvents}
+          isLoading={isTimelineLoading}
+        />
+      </div>
 
-        {/* POP / COCP Tabs */}
-        <div className="grid grid-cols-2 gap-4 mb-6">
+      {/* Service Requests Section */}
+      <div className="mt-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-semibold flex items-center gap-3">
+            <Pill /> Service Requests
+          </h3>
           <button
-            onClick={() => setActiveServiceTab("POP")}
-            className={`cursor-pointer rounded-xl shadow-md p-4 border-b-2 border-gray-400 transition-all duration-300 ${activeServiceTab === "POP"
-                ? "bg-pink-300 text-white"
-                : "bg-white hover:bg-pink-200 text-gray-700"
-              }`}
+            onClick={handleExportCsv}
+            disabled={serviceLoading || patientRequests.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-fuchsia-100 text-fuchsia-700 rounded-lg hover:bg-fuchsia-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <p
-              className={`text-sm font-medium ${activeServiceTab === "POP"
-                  ? "text-white"
-                  : "text-gray-600"
-                }`}
-            >
-              Requests
-            </p>
-            <h4
-              className={`text-lg font-bold ${activeServiceTab === "POP"
-                  ? "text-white"
-                  : "text-pink-400"
-                }`}
-            >
-              POP ({popResponse?.data?.length ?? 0})
-            </h4>
+            <Download size={18} />
+            Export CSV
           </button>
+        </div>
 
-          <button
-            onClick={() => setActiveServiceTab("COCP")}
-            className={`cursor-pointer rounded-xl shadow-md p-4 border-b-2 border-gray-400 transition-all duration-300 ${activeServiceTab === "COCP"
-                ? "bg-pink-300 text-white"
-                : "bg-white hover:bg-pink-200 text-gray-700"
-              }`}
-          >
-            <p
-              className={`text-sm font-medium ${activeServiceTab === "COCP"
-                  ? "text-white"
-                  : "text-gray-600"
-                }`}
-            >
-              Requests
-            </p>
-            <h4
-              className={`text-lg font-bold ${activeServiceTab === "COCP"
-                  ? "text-white"
-                  : "text-pink-400"
-                }`}
-            >
-              COCP ({cocpResponse?.data?.length ?? 0})
-            </h4>
-          </button>
+        {/* Service Tabs */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          {SERVICE_TYPES.map((service) => {
+            const isActive = activeService === service;
+            const count = patientRequests.filter(
+              (req) => req.serviceType === service
+            ).length;
+            return (
+              <button
+                key={service}
+                onClick={() => setActiveService(service)}
+                className={`cursor-pointer rounded-xl shadow-md p-4 border-b-2 border-gray-400 transition-all duration-300 ${isActive
+                    ? "bg-pink-300 text-white"
+                    : "bg-white hover:bg-pink-200 text-gray-700"
+                  }`}
+              >
+                <p
+                  className={`text-sm font-medium ${isActive
+                      ? "text-white"
+                      : "text-gray-600"
+                    }`}
+                >
+                  Requests
+                </p>
+                <h4
+                  className={`text-lg font-bold ${isActive
+                      ? "text-white"
+                      : "text-pink-400"
+                    }`}
+                >
+                  {getServiceDefinition(service).label} ({count})
+                </h4>
+              </button>
+            );
+          })}
         </div>
 
         {/* Requests Table */}
         <div className="p-6 bg-white shadow-md rounded-xl border-b-2 border-gray-400 overflow-x-auto">
           <h4 className="text-lg font-semibold mb-4">
-            {activeServiceTab} Requests
+            {activeServiceLabel} Requests
           </h4>
 
           {serviceLoading ? (
@@ -300,7 +356,7 @@ const UserDetailsPage = () => {
             </div>
           ) : requests.length === 0 ? (
             <div className="p-4 text-center text-gray-500 italic">
-              No {activeServiceTab} requests found for this user.
+              No {activeServiceLabel} requests found for this user.
             </div>
           ) : (
             <table className="w-full border border-pink-200 rounded-2xl">
@@ -325,7 +381,6 @@ const UserDetailsPage = () => {
               </thead>
               <tbody>
                 {requests.map((req) => {
-                  const requestType = activeServiceTab.toLowerCase();
                   const { date, time } = formatDateTime(req.createdAt || "");
 
                   return (
@@ -349,27 +404,25 @@ const UserDetailsPage = () => {
                         </span>
                       </td>
                       <td className="p-3 border-b border-pink-100">
-                        <span
-                          className={`px-2 py-1 rounded-full text-xs font-medium ${req.deliveryStatus === DeliveryStatus.Done
-                              ? "bg-green-100 text-green-700"
-                              : req.deliveryStatus === DeliveryStatus.Started
-                                ? "bg-blue-100 text-blue-700"
-                                : "bg-gray-100 text-gray-700"
-                            }`}
-                        >
-                          {req.deliveryStatus
-                            ? req.deliveryStatus.charAt(0).toUpperCase() +
-                            req.deliveryStatus.slice(1)
-                            : "Pending"}
-                        </span>
+                        <DeliveryStatusBadge status={req.deliveryStatus} />
                       </td>
                       <td className="p-3 border-b border-pink-100 text-center">
-                        <Link
-                          href={`/dashboard/our-service/${req._id}?type=${requestType}`}
-                          className="px-3 py-1 bg-blue-200 hover:bg-blue-500 text-blue-800 hover:text-white rounded border border-blue-300 transition-colors"
-                        >
-                          Details
-                        </Link>
+                        <div className="flex gap-2 justify-center items-center">
+                          <Link
+                            href={`/dashboard/our-service/${req._id}?type=${req.serviceType}`}
+                            className="px-3 py-1 bg-blue-200 hover:bg-blue-500 text-blue-800 hover:text-white rounded border border-blue-300 transition-colors"
+                          >
+                            Details
+                          </Link>
+                          <Link
+                            href={`/dashboard/our-service/${req._id}/print?type=${req.serviceType}`}
+                            title="Printable consultation summary"
+                            className="flex items-center gap-1 px-3 py-1 bg-fuchsia-100 hover:bg-fuchsia-400 text-fuchsia-800 hover:text-white rounded border border-fuchsia-300 transition-colors"
+                          >
+                            <Printer size={14} />
+                            PDF
+                          </Link>
+                        </div>
                       </td>
                     </tr>
                   );
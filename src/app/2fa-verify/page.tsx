@@ -1,14 +1,18 @@
 "use client"; // Important: This page uses client-side hooks
 
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { useSelector } from "react-redux";
 import { useVerifyTwoFactorMutation } from "@/api/authApi"; // Adjust import path if needed
 import { RootState } from "@/store"; // Adjust import path if needed
 import { useEffect } from "react";
+import { LOGIN_PATH, RETURN_TO_PARAM } from "@/config/session";
+import { getSafeReturnTo, syncSessionCookie } from "@/utils/session";
 
 const TwoFactorVerifyPage = () => {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get(RETURN_TO_PARAM));
   const { twoFactorUserId } = useSelector((state: RootState) => state.auth);
   const [verify, { isLoading, error }] = useVerifyTwoFactorMutation();
 
@@ -22,19 +26,26 @@ const TwoFactorVerifyPage = () => {
   // Effect to redirect if the user lands here without the necessary state
   useEffect(() => {
     if (!twoFactorUserId) {
-      router.replace("/login");
+      router.replace(LOGIN_PATH);
     }
   }, [twoFactorUserId, router]);
 
   const onSubmit = async (data: { token: string }) => {
     if (!twoFactorUserId) return; // Guard clause
     try {
-      await verify({ userId: twoFactorUserId, token: data.token }).unwrap();
-      router.push("/dashboard");
+      const response = await verify({
+        userId: twoFactorUserId,
+        token: data.token,
+      }).unwrap();
+      if (response.success) {
+        await syncSessionCookie(response.data.accessToken);
+      }
+      router.push(returnTo);
     } catch (err: any) {
       setError("token", {
         type: "manual",
-        message: err.data?.message || "Invalid token. Please try again.",
+        message:
+          err.data?.message || err.message || "Invalid token. Please try again.",
       });
     }
   };
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BASE_URL } from "@/config/constants";
+import { SESSION_COOKIE, SESSION_MAX_AGE_SECONDS } from "@/config/session";
+import { ApiResponse, User } from "@/types";
+import { can } from "@/utils/permissions";
+import { signSessionCookie } from "@/utils/sessionCookie";
+
+// Sets the session cookie for a freshly issued access token. The token is
+// checked against the API and the cookie is signed, so its role can't be made
+// up or edited afterwards.
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as {
+    accessToken?: unknown;
+  } | null;
+  const accessToken = body?.accessToken;
+  if (typeof accessToken !== "string" || !accessToken) {
+    return NextResponse.json(
+      { success: false, message: "Access token is required." },
+      { status: 400 }
+    );
+  }
+
+  const profileResponse = await fetch(`${BASE_URL}/user/profile`, {
+    headers: { authorization: `Bearer ${accessToken}` },
+    cache: "no-store",
+  }).catch(() => null);
+  const profile = (await profileResponse
+    ?.json()
+    .catch(() => null)) as ApiResponse<User> | null;
+
+  if (!profileResponse?.ok || !profile?.success) {
+    return NextResponse.json(
+      { success: false, message: "Your session could not be verified." },
+      { status: 401 }
+    );
+  }
+
+  const { role } = profile.data;
+  if (!can(role, "dashboard:view")) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: "This account does not have access to the dashboard.",
+      },
+      { status: 403 }
+    );
+  }
+
+  const sessionCookie = await signSessionCookie(
+    role,
+    Date.now() + SESSION_MAX_AGE_SECONDS * 1000
+  );
+  if (!sessionCookie) {
+    console.error("SESSION_SECRET is not set; refusing to start a session.");
+    return NextResponse.json(
+      { success: false, message: "Sessions are not configured." },
+      { status: 500 }
+    );
+  }
+
+  const response = NextResponse.json({ success: true, message: "OK" });
+  response.cookies.set(SESSION_COOKIE, sessionCookie, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true, message: "OK" });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { Suspense } from "react";
+import Login from "@/components/Auth/Login";
+
+const page = () => {
+  return (
+    <div>
+      {/* Login reads the return-to URL from the search params */}
+      <Suspense fallback={null}>
+        <Login />
+      </Suspense>
+    </div>
+  );
+};
+
+export default page;
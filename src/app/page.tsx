@@ -1,11 +1,8 @@
-import Login from "@/components/Auth/Login";
+import { redirect } from "next/navigation";
+import { LOGIN_PATH } from "@/config/session";
 
 const page = () => {
-  return (
-    <div>
-      <Login />
-    </div>
-  );
+  redirect(LOGIN_PATH);
 };
 
 export default page;
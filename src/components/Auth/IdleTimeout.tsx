@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback } from "react";
+import { useSelector } from "react-redux";
+import { Clock } from "lucide-react";
+import { IDLE_TIMEOUT_MS, IDLE_WARNING_MS } from "@/config/session";
+import { lockSession } from "@/features/auth/authSlice";
+import { useIdleTimer } from "@/hooks/useIdleTimer";
+import { RootState, useAppDispatch } from "@/store";
+import { LockScreen } from "./LockScreen";
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Warns before the dashboard locks on inactivity, then shows the lock screen
+// until the user re-authenticates
+export const IdleTimeout = () => {
+  const dispatch = useAppDispatch();
+  const role = useSelector((state: RootState) => state.auth.user?.role);
+  const isLocked = useSelector((state: RootState) => state.auth.isLocked);
+
+  const handleIdle = useCallback(() => dispatch(lockSession()), [dispatch]);
+  const { warningRemainingMs, reset } = useIdleTimer({
+    timeoutMs: IDLE_TIMEOUT_MS[role ?? "user"],
+    warningMs: IDLE_WARNING_MS,
+    enabled: !isLocked,
+    onIdle: handleIdle,
+  });
+
+  if (isLocked) return <LockScreen />;
+  if (warningRemainingMs === null) return null;
+
+  return (
+    <div className="fixed inset-0 bg-opacity-25 z-50 flex justify-center items-center backdrop-blur-sm print:hidden">
+      <div
+        role="alertdialog"
+        aria-live="assertive"
+        className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-sm m-4 text-center text-gray-800"
+      >
+        <Clock className="w-10 h-10 text-pink-500 mx-auto mb-3" />
+        <h2 className="text-xl font-bold mb-2">Are you still there?</h2>
+        <p className="text-gray-500 mb-4">
+          The dashboard will lock in{" "}
+          <span className="font-semibold text-pink-600">
+            {formatCountdown(warningRemainingMs)}
+          </span>{" "}
+          to protect patient information.
+        </p>
+        <button
+          onClick={reset}
+          className="w-full py-2 rounded bg-pink-400 text-white font-semibold hover:bg-pink-500 transition"
+        >
+          Stay Signed In
+        </button>
+      </div>
+    </div>
+  );
+};
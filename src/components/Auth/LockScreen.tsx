@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import { Eye, EyeOff, Lock } from "lucide-react";
+import { useLoginMutation, useVerifyTwoFactorMutation } from "@/api/authApi";
+import {
+  logoutUser,
+  setCredentials,
+  unlockSession,
+} from "@/features/auth/authSlice";
+import { RootState, useAppDispatch } from "@/store";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { syncSessionCookie } from "@/utils/session";
+
+// Covers the dashboard after inactivity. The app stays mounted underneath,
+// so half-filled forms survive until the user proves it is still them.
+export const LockScreen = () => {
+  const dispatch = useAppDispatch();
+  const user = useSelector((state: RootState) => state.auth.user);
+  const [login, { isLoading: isLoggingIn }] = useLoginMutation();
+  const [verify, { isLoading: isVerifying }] = useVerifyTwoFactorMutation();
+
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [code, setCode] = useState("");
+  // Set once the password is accepted and the account needs a 2FA code
+  const [twoFactorUserId, setTwoFactorUserId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !password) return;
+    setError("");
+    try {
+      const response = await login({
+        method: "email",
+        email: user.email,
+        password,
+      }).unwrap();
+      if (!response.success) {
+        setError(response.message || "Incorrect password.");
+        return;
+      }
+      const data = response.data;
+      if ("status" in data) {
+        if (data.status === "2fa_required") {
+          setTwoFactorUserId(data.userId);
+        } else {
+          setError(
+            "Two-factor setup is required. Log out and log in again to continue."
+          );
+        }
+        return;
+      }
+      await syncSessionCookie(data.accessToken);
+      dispatch(setCredentials(data));
+      dispatch(unlockSession());
+    } catch (err) {
+      console.error("Unlock failed:", err);
+      setError(getApiErrorMessage(err, "Incorrect password."));
+    }
+  };
+
+  const handleCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorUserId) return;
+    setError("");
+    try {
+      const response = await verify({
+        userId: twoFactorUserId,
+        token: code,
+      }).unwrap();
+      if (!response.success) {
+        setError(response.message || "Invalid code.");
+        return;
+      }
+      await syncSessionCookie(response.data.accessToken);
+      dispatch(unlockSession());
+    } catch (err) {
+      console.error("2FA unlock failed:", err);
+      setError(getApiErrorMessage(err, "Invalid code. Please try again."));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-b from-[#fff5f7] to-[#ffeef2] print:hidden">
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-md m-4 text-gray-800">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="p-3 rounded-full bg-pink-100 mb-3">
+            <Lock className="w-8 h-8 text-pink-500" />
+          </div>
+          <h2 className="text-2xl font-bold text-pink-600">Session Locked</h2>
+          <p className="text-gray-500 mt-1">
+            Locked after a period of inactivity.{" "}
+            {twoFactorUserId
+              ? "Enter the code from your authenticator app."
+              : `Enter the password for ${user?.email ?? "your account"} to continue.`}
+          </p>
+        </div>
+
+        {twoFactorUserId ? (
+          <form onSubmit={handleCode} className="space-y-4">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="Enter 6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              maxLength={6}
+              autoFocus
+              className="w-full px-4 py-2 border border-pink-400 rounded focus:ring-2 focus:ring-pink-600 outline-none"
+            />
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              type="submit"
+              disabled={isVerifying || code.length !== 6}
+              className="w-full py-2 rounded bg-pink-400 text-white font-semibold hover:bg-pink-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isVerifying ? "Verifying..." : "Unlock"}
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handlePassword} className="space-y-4">
+            <div className="relative">
+              <input
+                type={showPassword ? "text" : "password"}
+                autoComplete="current-password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                className="w-full px-4 py-2 border border-pink-400 rounded focus:ring-2 focus:ring-pink-600 outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-2.5 text-gray-500"
+              >
+                {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+              </button>
+            </div>
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+            <button
+              type="submit"
+              disabled={isLoggingIn || !password}
+              className="w-full py-2 rounded bg-pink-400 text-white font-semibold hover:bg-pink-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoggingIn ? "Checking..." : "Unlock"}
+            </button>
+          </form>
+        )}
+
+        <button
+          onClick={() => dispatch(logoutUser())}
+          className="w-full mt-4 text-sm text-gray-500 hover:text-pink-600 hover:underline"
+        >
+          Not you? Log out
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@
 
 import { Eye, EyeOff } from "lucide-react";
 import Image from "next/image";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import banner from "../../../public/login-bg.png";
@@ -11,6 +11,8 @@ import { LoginRequest, LoginResponseData } from "@/types";
 import { requestNotificationPermissionAndGetToken } from "@/utils/notificationUtils";
 import { useLoginMutation } from "@/api/authApi";
 import { setCredentials, setTwoFactorUserId } from "@/features/auth/authSlice";
+import { RETURN_TO_PARAM } from "@/config/session";
+import { getSafeReturnTo, syncSessionCookie } from "@/utils/session";
 
 type FormData = {
   email: string;
@@ -21,7 +23,11 @@ type FormData = {
 const Login = () => {
   const [showPassword, setShowPassword] = useState(false);
   const router = useRouter();
+  const searchParams = useSearchParams();
   const dispatch = useDispatch();
+  // Where middleware was sending the user before it asked them to log in
+  const returnTo = getSafeReturnTo(searchParams.get(RETURN_TO_PARAM));
+  const returnToQuery = `${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}`;
 
   const [login, { isLoading, error }] = useLoginMutation();
 
@@ -56,15 +62,17 @@ const Login = () => {
           if (responseData.status === "2fa_setup_required") {
             dispatch(setTwoFactorUserId(responseData.userId));
             router.push(
-              `/2fa-setup?qr=${encodeURIComponent(responseData.qrCodeImageUrl)}`
+              `/2fa-setup?qr=${encodeURIComponent(responseData.qrCodeImageUrl)}&${returnToQuery}`
             );
           } else if (responseData.status === "2fa_required") {
             dispatch(setTwoFactorUserId(responseData.userId));
-            router.push("/2fa-verify");
+            router.push(`/2fa-verify?${returnToQuery}`);
           }
         } else {
+          // The cookie must exist before navigating or middleware bounces back here
+          await syncSessionCookie(responseData.accessToken);
           dispatch(setCredentials(responseData));
-          router.push("/dashboard");
+          router.push(returnTo);
         }
       } else {
         setError("email", {
@@ -88,6 +96,7 @@ const Login = () => {
           type: "manual",
           message:
             err.data?.message ||
+            err.message ||
             "An unexpected error occurred. Please try again.",
         });
         setError("password", {
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSelector } from "react-redux";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { ShieldAlert } from "lucide-react";
+import { RootState, useAppDispatch } from "@/store";
+import { logoutUser } from "@/features/auth/authSlice";
+import { can, canAccessRoute } from "@/utils/permissions";
+import { clearSessionCookie, getLoginHref } from "@/utils/session";
+
+// Client-side counterpart to middleware: catches sessions that end while the
+// dashboard is open and blocks sections the user's role has no capability for
+export const PrivateRoute = ({ children }: { children: React.ReactNode }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useSelector(
+    (state: RootState) => state.auth.isAuthenticated
+  );
+  const role = useSelector((state: RootState) => state.auth.user?.role);
+
+  useEffect(() => {
+    if (isAuthenticated) return;
+    // Drop the cookie too, or middleware would keep letting the shell render
+    clearSessionCookie().then(() => router.replace(getLoginHref(pathname)));
+  }, [isAuthenticated, pathname, router]);
+
+  if (!isAuthenticated) return null;
+
+  if (!canAccessRoute(role, pathname)) {
+    const hasDashboard = can(role, "dashboard:view");
+    return (
+      <div className="min-h-[60vh] flex flex-col items-center justify-center text-center text-gray-700">
+        <ShieldAlert className="w-12 h-12 text-pink-400 mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Access denied</h1>
+        <p className="text-gray-500 mb-6">
+          Your role does not have access to this page.
+        </p>
+        {hasDashboard ? (
+          <Link
+            href="/dashboard"
+            className="px-4 py-2 bg-pink-400 text-white rounded hover:bg-pink-500"
+          >
+            Back to Dashboard
+          </Link>
+        ) : (
+          <button
+            onClick={() => dispatch(logoutUser())}
+            className="px-4 py-2 bg-pink-400 text-white rounded hover:bg-pink-500"
+          >
+            Log Out
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect } from "react";
+import { useSelector } from "react-redux";
+import { refreshAccessToken } from "@/api/api";
+import { TOKEN_REFRESH_LEEWAY_MS } from "@/config/session";
+import { RootState, useAppDispatch } from "@/store";
+import { getTokenExpiry } from "@/utils/jwt";
+
+// setTimeout overflows past ~24.8 days and would fire immediately
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Refreshes the access token shortly before it expires, so an idle dashboard
+// doesn't hit a 401 on its next request
+export const SessionRefresher = () => {
+  const dispatch = useAppDispatch();
+  const accessToken = useSelector((state: RootState) => state.auth.accessToken);
+
+  useEffect(() => {
+    const expiry = accessToken ? getTokenExpiry(accessToken) : null;
+    if (expiry === null) return;
+
+    const delay = Math.min(
+      Math.max(expiry - Date.now() - TOKEN_REFRESH_LEEWAY_MS, 0),
+      MAX_TIMEOUT_MS
+    );
+    const timer = setTimeout(() => dispatch(refreshAccessToken), delay);
+    return () => clearTimeout(timer);
+  }, [accessToken, dispatch]);
+
+  return null;
+};
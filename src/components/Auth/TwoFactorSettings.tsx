@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import toast from "react-hot-toast";
+import { Download, KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+import {
+  useConfirmTwoFactorEnrolmentMutation,
+  useGenerateRecoveryCodesMutation,
+  useGetTwoFactorStatusQuery,
+  useStartTwoFactorEnrolmentMutation,
+} from "@/api/authApi";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { downloadTextFile, getExportFilename } from "@/utils/export";
+
+// Actions that first ask for a code from the current authenticator
+type PendingAction = "enrol" | "recovery";
+
+const CODE_INPUT_CLASS =
+  "w-full text-gray-700 border border-gray-300 px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-300 transition tracking-widest";
+
+const CodeForm = ({
+  label,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: {
+  label: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (code: string) => void;
+  onCancel: () => void;
+}) => {
+  const [code, setCode] = useState("");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(code);
+      }}
+      className="space-y-3 max-w-sm"
+    >
+      <label className="block font-medium text-gray-700">{label}</label>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="6-digit code"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value.trim())}
+        autoFocus
+        className={CODE_INPUT_CLASS}
+      />
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 transition"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting || code.length !== 6}
+          className="bg-pink-400 text-white px-4 py-2 rounded-lg hover:bg-pink-500 transition disabled:bg-pink-200"
+        >
+          {isSubmitting ? "Checking..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Two-factor status plus self-service re-enrolment and recovery codes for
+// the logged-in user
+export const TwoFactorSettings = () => {
+  const { data: statusResponse, isLoading } = useGetTwoFactorStatusQuery();
+  const [startEnrolment, { isLoading: isStarting }] =
+    useStartTwoFactorEnrolmentMutation();
+  const [confirmEnrolment, { isLoading: isConfirming }] =
+    useConfirmTwoFactorEnrolmentMutation();
+  const [generateCodes, { isLoading: isGenerating }] =
+    useGenerateRecoveryCodesMutation();
+
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(
+    null
+  );
+  const [qrCodeImageUrl, setQrCodeImageUrl] = useState<string | null>(null);
+  // Shown once after generation; the server keeps only hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const status = statusResponse?.success ? statusResponse.data : null;
+
+  const beginEnrolment = async (token?: string) => {
+    try {
+      const response = await startEnrolment(token ? { token } : {}).unwrap();
+      if (response.success) {
+        setQrCodeImageUrl(response.data.qrCodeImageUrl);
+        setPendingAction(null);
+      }
+    } catch (err) {
+      console.error("Failed to start 2FA enrolment:", err);
+      toast.error(getApiErrorMessage(err, "Invalid code. Please try again."));
+    }
+  };
+
+  const handleConfirmEnrolment = async (token: string) => {
+    try {
+      await confirmEnrolment({ token }).unwrap();
+      setQrCodeImageUrl(null);
+      toast.success("New authenticator set up.");
+    } catch (err) {
+      console.error("Failed to confirm 2FA enrolment:", err);
+      toast.error(getApiErrorMessage(err, "Invalid code. Please try again."));
+    }
+  };
+
+  const handleGenerateCodes = async (token: string) => {
+    try {
+      const response = await generateCodes({ token }).unwrap();
+      if (response.success) {
+        setRecoveryCodes(response.data.codes);
+        setPendingAction(null);
+      }
+    } catch (err) {
+      console.error("Failed to generate recovery codes:", err);
+      toast.error(getApiErrorMessage(err, "Invalid code. Please try again."));
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    downloadTextFile(
+      getExportFilename("herpill-recovery-codes", "txt"),
+      [
+        "herPILL dashboard recovery codes",
+        "Each code can be used once in place of an authenticator code.",
+        "",
+        ...recoveryCodes,
+        "",
+      ].join("\n")
+    );
+  };
+
+  const renderBody = () => {
+    if (qrCodeImageUrl) {
+      return (
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Scan this QR code with your new authenticator app, then enter the
+            code it shows. Your old authenticator keeps working until you do.
+          </p>
+          <Image
+            src={qrCodeImageUrl}
+            alt="2FA QR Code"
+            width={200}
+            height={200}
+          />
+          <CodeForm
+            label="Code from the new authenticator"
+            submitLabel="Confirm"
+            isSubmitting={isConfirming}
+            onSubmit={handleConfirmEnrolment}
+            onCancel={() => setQrCodeImageUrl(null)}
+          />
+        </div>
+      );
+    }
+
+    if (pendingAction) {
+      return (
+        <CodeForm
+          label="Enter a code from your current authenticator to continue"
+          submitLabel={
+            pendingAction === "enrol" ? "Continue" : "Generate Codes"
+          }
+          isSubmitting={isStarting || isGenerating}
+          onSubmit={
+            pendingAction === "enrol" ? beginEnrolment : handleGenerateCodes
+          }
+          onCancel={() => setPendingAction(null)}
+        />
+      );
+    }
+
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-orange-700 bg-orange-50 border border-orange-300 rounded-lg p-3 text-sm">
+            Save these codes somewhere safe. They will not be shown again, and
+            any earlier codes no longer work.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 max-w-sm font-mono text-gray-800">
+            {recoveryCodes.map((code) => (
+              <li key={code} className="bg-gray-50 border rounded px-3 py-1">
+                {code}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-3">
+            <button
+              onClick={handleDownloadCodes}
+              className="flex items-center gap-2 px-4 py-2 bg-fuchsia-100 text-fuchsia-700 rounded-lg hover:bg-fuchsia-200 transition-colors"
+            >
+              <Download size={18} /> Download
+            </button>
+            <button
+              onClick={() => setRecoveryCodes(null)}
+              className="bg-pink-400 text-white px-4 py-2 rounded-lg hover:bg-pink-500 transition"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() =>
+            status?.enabled ? setPendingAction("enrol") : beginEnrolment()
+          }
+          disabled={isStarting}
+          className="flex items-center gap-2 bg-pink-400 text-white px-4 py-2 rounded-lg hover:bg-pink-500 transition disabled:bg-pink-200"
+        >
+          <ShieldCheck size={18} />
+          {status?.enabled ? "Set Up New Authenticator" : "Set Up Authenticator"}
+        </button>
+        {status?.enabled && (
+          <button
+            onClick={() => setPendingAction("recovery")}
+            className="flex items-center gap-2 px-4 py-2 bg-fuchsia-100 text-fuchsia-700 rounded-lg hover:bg-fuchsia-200 transition-colors"
+          >
+            <KeyRound size={18} /> Generate Recovery Codes
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-8 border-t border-gray-200 pt-6">
+      <h3 className="text-xl font-semibold mb-4 text-gray-800">
+        Two-Factor Authentication
+      </h3>
+      {isLoading ? (
+        <p className="text-gray-500">Loading 2FA status...</p>
+      ) : !status ? (
+        <p className="text-red-500">Failed to load 2FA status.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-x-8 gap-y-2">
+            <p
+              className={`flex items-center gap-2 font-semibold ${status.enabled ? "text-green-600" : "text-red-600"
+                }`}
+            >
+              {status.enabled ? (
+                <ShieldCheck size={18} />
+              ) : (
+                <ShieldOff size={18} />
+              )}
+              {status.enabled ? "Enabled" : "Not set up"}
+            </p>
+            {status.enrolledAt && (
+              <p className="text-gray-600">
+                Enrolled{" "}
+                {new Date(status.enrolledAt).toLocaleDateString("en-GB")}
+              </p>
+            )}
+            {status.enabled && (
+              <p
+                className={
+                  status.recoveryCodesRemaining === 0
+                    ? "text-orange-600"
+                    : "text-gray-600"
+                }
+              >
+                {status.recoveryCodesRemaining} recovery code
+                {status.recoveryCodesRemaining === 1 ? "" : "s"} left
+              </p>
+            )}
+          </div>
+          {renderBody()}
+        </div>
+      )}
+    </div>
+  );
+};
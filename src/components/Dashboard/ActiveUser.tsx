@@ -1,5 +1,6 @@
 "use client";
 import { useToggleUserStatusMutation } from "@/api/dashboardApi";
+import { usePermissions } from "@/hooks/usePermissions";
 import { User } from "@/types";
 import Image from "next/image";
 import Link from "next/link";
@@ -12,6 +13,8 @@ interface UserTableProps {
 const UserTable = ({ users }: UserTableProps) => {
   const [toggleUserStatus, { isLoading: isTogglingStatus }] =
     useToggleUserStatusMutation();
+  const { can } = usePermissions();
+  const canBlock = can("users:block");
 
   const handleToggle = async (id: string, currentBlockedStatus: boolean) => {
     try {
@@ -45,7 +48,9 @@ const UserTable = ({ users }: UserTableProps) => {
               <th className="p-2 border border-pink-200">Image</th>
               <th className="p-2 border border-pink-200">Name</th>
               <th className="p-2 border border-pink-200">Email</th>
-              <th className="p-2 border border-pink-200">Status</th>
+              {canBlock && (
+                <th className="p-2 border border-pink-200">Status</th>
+              )}
               <th className="p-2 border border-pink-200">Action</th>
             </tr>
           </thead>
@@ -67,27 +72,29 @@ const UserTable = ({ users }: UserTableProps) => {
                 </td>
                 <td className="p-2 border border-pink-200">{user.firstName}</td>
                 <td className="p-2 border border-pink-200">{user.email}</td>
-                <td className="p-2 border border-pink-200">
-                  <div className="w-full flex gap-5  justify-center items-center px-4 py-2">
-                    <span>{user.blocked ? "Unblock" : "Block"}</span>
-                    <label className="relative inline-flex items-center cursor-pointer">
-                      {/* The hidden checkbox that holds the actual state */}
-                      <input
-                        type="checkbox"
-                        className="sr-only peer"
-                        checked={user.blocked}
-                        onChange={() => handleToggle(user._id, user.blocked)}
-                        disabled={isTogglingStatus}
-                      />
-                      {/* The background track of the toggle */}
-                      {/* Default state (to block) is red */}
-                      {/* Checked state (to unblock) is green */}
-                      <div className="w-11 h-6 bg-red-500 rounded-full transition-colors peer-focus:ring-2 peer-focus:ring-pink-300 peer-checked:bg-green-500"></div>
-                      {/* The moving dot/handle */}
-                      <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
-                    </label>
-                  </div>
-                </td>
+                {canBlock && (
+                  <td className="p-2 border border-pink-200">
+                    <div className="w-full flex gap-5  justify-center items-center px-4 py-2">
+                      <span>{user.blocked ? "Unblock" : "Block"}</span>
+                      <label className="relative inline-flex items-center cursor-pointer">
+                        {/* The hidden checkbox that holds the actual state */}
+                        <input
+                          type="checkbox"
+                          className="sr-only peer"
+                          checked={user.blocked}
+                          onChange={() => handleToggle(user._id, user.blocked)}
+                          disabled={isTogglingStatus}
+                        />
+                        {/* The background track of the toggle */}
+                        {/* Default state (to block) is red */}
+                        {/* Checked state (to unblock) is green */}
+                        <div className="w-11 h-6 bg-red-500 rounded-full transition-colors peer-focus:ring-2 peer-focus:ring-pink-300 peer-checked:bg-green-500"></div>
+                        {/* The moving dot/handle */}
+                        <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
+                      </label>
+                    </div>
+                  </td>
+                )}
                 <td className="p-2 border border-pink-200">
                   <Link
                     href={`/dashboard/user/${user._id}`}
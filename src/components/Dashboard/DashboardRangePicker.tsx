@@ -0,0 +1,97 @@
+"use client";
+import {
+  DASHBOARD_RANGE_PRESETS,
+  DashboardRangePreset,
+  GRANULARITY_OPTIONS,
+} from "@/config/dashboardRange";
+import { DashboardQueryParams, StatGranularity } from "@/types";
+import { getPresetRange, toDateInputValue } from "@/utils/dashboardRange";
+
+interface DashboardRangePickerProps {
+  preset: DashboardRangePreset;
+  range: DashboardQueryParams;
+  onChange: (preset: DashboardRangePreset, range: DashboardQueryParams) => void;
+}
+
+const DashboardRangePicker = ({
+  preset,
+  range,
+  onChange,
+}: DashboardRangePickerProps) => {
+  const today = toDateInputValue(new Date());
+
+  // Editing the dates by hand turns the range into a custom one
+  const updateCustom = (changes: Partial<DashboardQueryParams>) =>
+    onChange("custom", { ...range, ...changes });
+
+  return (
+    <div className="p-4 bg-white shadow-md rounded-md text-gray-800 flex flex-wrap items-end gap-4 mb-8">
+      <div className="flex flex-wrap gap-2">
+        {DASHBOARD_RANGE_PRESETS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value, getPresetRange(option.value))}
+            className={`px-3 py-2 rounded-md text-sm transition-colors ${preset === option.value
+              ? "bg-fuchsia-400 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-fuchsia-200"
+              }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">
+          From
+        </label>
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) =>
+            e.target.value && updateCustom({ from: e.target.value })
+          }
+          className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">
+          To
+        </label>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          max={today}
+          onChange={(e) =>
+            e.target.value && updateCustom({ to: e.target.value })
+          }
+          className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-600 mb-1">
+          Group By
+        </label>
+        <select
+          value={range.granularity}
+          onChange={(e) =>
+            onChange(preset, {
+              ...range,
+              granularity: e.target.value as StatGranularity,
+            })
+          }
+          className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+        >
+          {GRANULARITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default DashboardRangePicker;
@@ -0,0 +1,178 @@
+"use client";
+import { useGetDemographicsQuery } from "@/api/dashboardApi";
+import {
+  AGE_BANDS,
+  GENDER_LABELS,
+  NOT_PROVIDED_LABEL,
+} from "@/config/demographics";
+import { DemographicCount, Gender } from "@/types";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+const PIE_COLORS = ["#ec4899", "#60a5fa", "#a855f7", "#f59e0b", "#9ca3af"];
+
+// Contraception methods beyond this are grouped as "Other methods"
+const MAX_CONTRACEPTION_METHODS = 8;
+
+const toChartData = (
+  counts: DemographicCount[],
+  getLabel: (id: string) => string = (id) => id
+) =>
+  counts.map(({ _id, count }) => ({
+    label: _id ? getLabel(_id) : NOT_PROVIDED_LABEL,
+    count,
+  }));
+
+// Heatmap cell shade, scaled against the busiest postcode area
+const getHeatColor = (count: number, max: number) =>
+  `rgba(236, 72, 153, ${0.1 + 0.8 * (max ? count / max : 0)})`;
+
+const Demographics = () => {
+  const { data: response, isLoading, isError } = useGetDemographicsQuery();
+
+  if (isLoading) {
+    return (
+      <div className="bg-white p-6 shadow-sm rounded-xl border-b-2 border-gray-400 my-16 text-center text-gray-500">
+        Loading patient demographics...
+      </div>
+    );
+  }
+
+  if (isError || !response?.success) {
+    return (
+      <div className="bg-white p-6 shadow-sm rounded-xl border-b-2 border-gray-400 my-16 text-center text-red-500">
+        Failed to load patient demographics.
+      </div>
+    );
+  }
+
+  const { totalPatients, ageBands, gender, postcodeAreas, contraception } =
+    response.data;
+
+  const ageData = [
+    ...AGE_BANDS.map((band) => ({
+      label: band.label,
+      count: ageBands.find((group) => group._id === band.key)?.count ?? 0,
+    })),
+    ...toChartData(ageBands.filter((group) => !group._id)),
+  ];
+  const genderData = toChartData(
+    gender,
+    (id) => GENDER_LABELS[id as Gender] ?? id
+  );
+
+  const sortedMethods = [...contraception].sort((a, b) => b.count - a.count);
+  const otherMethods = sortedMethods
+    .slice(MAX_CONTRACEPTION_METHODS)
+    .reduce((sum, group) => sum + group.count, 0);
+  const contraceptionData = [
+    ...toChartData(sortedMethods.slice(0, MAX_CONTRACEPTION_METHODS)),
+    ...(otherMethods ? [{ label: "Other methods", count: otherMethods }] : []),
+  ];
+
+  const areas = [...postcodeAreas].sort((a, b) => b.count - a.count);
+  const maxAreaCount = areas[0]?.count ?? 0;
+
+  return (
+    <div className="bg-white p-6 shadow-sm rounded-xl border-b-2 border-gray-400 text-gray-800 my-16">
+      <h2 className="text-black font-semibold text-lg mb-6">
+        Patient Demographics{" "}
+        <span className="font-normal text-gray-500">
+          ({totalPatients.toLocaleString()} patients)
+        </span>
+      </h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+        <div>
+          <h3 className="font-semibold mb-4">Age Bands</h3>
+          <ResponsiveContainer width="100%" height={280}>
+            <BarChart data={ageData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f2cbd6" />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="count" name="Patients" fill="#f4a6c1" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-4">Gender</h3>
+          <ResponsiveContainer width="100%" height={280}>
+            <PieChart>
+              <Pie
+                data={genderData}
+                dataKey="count"
+                nameKey="label"
+                outerRadius={100}
+              >
+                {genderData.map((entry, index) => (
+                  <Cell
+                    key={entry.label}
+                    fill={PIE_COLORS[index % PIE_COLORS.length]}
+                  />
+                ))}
+              </Pie>
+              <Tooltip />
+              <Legend />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-4">Current Contraception</h3>
+          <ResponsiveContainer
+            width="100%"
+            height={Math.max(200, contraceptionData.length * 36)}
+          >
+            <BarChart data={contraceptionData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" stroke="#f2cbd6" />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="label" width={140} />
+              <Tooltip />
+              <Bar dataKey="count" name="Patients" fill="#c084fc" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-4">Postcode Areas</h3>
+          {areas.length === 0 ? (
+            <p className="text-gray-500 italic">No postcodes on record.</p>
+          ) : (
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-[280px] overflow-y-auto">
+              {areas.map((area) => (
+                <div
+                  key={area._id ?? "none"}
+                  title={`${area.count} patients (${Math.round((area.count / (totalPatients || 1)) * 1000) / 10}%)`}
+                  style={{
+                    backgroundColor: getHeatColor(area.count, maxAreaCount),
+                  }}
+                  className="p-2 rounded text-center border border-pink-200"
+                >
+                  <p className="font-semibold text-sm">
+                    {area._id ?? NOT_PROVIDED_LABEL}
+                  </p>
+                  <p className="text-xs">{area.count}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Demographics;
@@ -0,0 +1,146 @@
+"use client";
+import {
+  useGetReorderCandidatesQuery,
+  useSendReorderReminderMutation,
+} from "@/api/serviceApi";
+import { getServiceDefinition } from "@/config/services";
+import { REORDER_STATUS_META } from "@/config/reorder";
+import { ReminderChannel } from "@/types";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { getReorderDueList, ReorderDueItem } from "@/utils/reorder";
+import { Bell, MessageCircle } from "lucide-react";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import toast from "react-hot-toast";
+
+const ReorderDueList = () => {
+  const { data: candidates = [], isLoading, isError } =
+    useGetReorderCandidatesQuery();
+  const [sendReminder] = useSendReorderReminderMutation();
+  // `${requestId}-${channel}` of the reminder currently being sent
+  const [sendingKey, setSendingKey] = useState<string | null>(null);
+
+  const dueList = useMemo(() => getReorderDueList(candidates), [candidates]);
+
+  const handleRemind = async (item: ReorderDueItem, channel: ReminderChannel) => {
+    const { request } = item;
+    setSendingKey(`${request._id}-${channel}`);
+    try {
+      await sendReminder({
+        service: request.serviceType,
+        id: request._id,
+        channel,
+      }).unwrap();
+      toast.success(
+        channel === "push"
+          ? "Reminder notification sent."
+          : "Reminder message sent."
+      );
+    } catch (err) {
+      console.error("Failed to send reminder:", err);
+      toast.error(getApiErrorMessage(err, "Failed to send reminder."));
+    } finally {
+      setSendingKey(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white shadow-md rounded-xl text-gray-800 my-16 border-b-2 border-gray-400 overflow-x-auto">
+      <h2 className="text-xl font-semibold mb-4">
+        Due to Reorder ({dueList.length})
+      </h2>
+      {isLoading ? (
+        <p className="text-center text-gray-500">Loading reorder list...</p>
+      ) : isError ? (
+        <p className="text-center text-red-500">
+          Failed to load the reorder list.
+        </p>
+      ) : dueList.length === 0 ? (
+        <p className="text-center text-gray-600">
+          No patients are due to reorder.
+        </p>
+      ) : (
+        <table className="w-full border border-pink-200 rounded-2xl">
+          <thead>
+            <tr className="bg-fuchsia-100">
+              <th className="p-2 border border-pink-200 text-left">Patient</th>
+              <th className="p-2 border border-pink-200">Service</th>
+              <th className="p-2 border border-pink-200">Supplied</th>
+              <th className="p-2 border border-pink-200">Due</th>
+              <th className="p-2 border border-pink-200">Status</th>
+              <th className="p-2 border border-pink-200">Last Reminder</th>
+              <th className="p-2 border border-pink-200">Remind</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dueList.map((item) => {
+              const { request, patient, dueDate, status } = item;
+              const meta = REORDER_STATUS_META[status];
+              return (
+                <tr key={request._id} className="text-center">
+                  <td className="p-2 border border-pink-200 text-left">
+                    <Link
+                      href={`/dashboard/user/${patient._id}`}
+                      className="font-medium text-pink-600 hover:underline"
+                    >
+                      {patient.firstName
+                        ? `${patient.firstName} ${patient.surname || ""}`.trim()
+                        : "Unknown patient"}
+                    </Link>
+                  </td>
+                  <td className="p-2 border border-pink-200">
+                    {getServiceDefinition(request.serviceType).label}
+                  </td>
+                  <td className="p-2 border border-pink-200">
+                    {request.suppliedMonths
+                      ? `${request.suppliedMonths} mo`
+                      : "Not recorded"}
+                  </td>
+                  <td className="p-2 border border-pink-200">
+                    {dueDate.toLocaleDateString("en-GB")}
+                  </td>
+                  <td className="p-2 border border-pink-200">
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${meta.className}`}
+                    >
+                      {meta.label}
+                    </span>
+                  </td>
+                  <td className="p-2 border border-pink-200 text-sm text-gray-600">
+                    {request.reminderSentAt
+                      ? new Date(request.reminderSentAt).toLocaleDateString(
+                        "en-GB"
+                      )
+                      : "Never"}
+                  </td>
+                  <td className="p-2 border border-pink-200">
+                    <div className="flex gap-2 justify-center">
+                      <button
+                        onClick={() => handleRemind(item, "push")}
+                        disabled={sendingKey !== null}
+                        title="Send push notification"
+                        className="p-2 bg-pink-100 text-pink-700 rounded hover:bg-pink-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Bell size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleRemind(item, "chat")}
+                        disabled={sendingKey !== null}
+                        title="Send chat message"
+                        className="p-2 bg-fuchsia-100 text-fuchsia-700 rounded hover:bg-fuchsia-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <MessageCircle size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ReorderDueList;
@@ -0,0 +1,256 @@
+"use client";
+import { useGetServiceRequestsInRangeQuery } from "@/api/serviceApi";
+import { useGetAllUserQuery } from "@/api/userApi";
+import { getServiceDefinition, SERVICE_TYPES } from "@/config/services";
+import { DashboardQueryParams } from "@/types";
+import {
+  buildServiceAnalytics,
+  formatDuration,
+} from "@/utils/serviceAnalytics";
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface ServiceAnalyticsProps {
+  range: DashboardQueryParams;
+}
+
+const SERVICE_COLORS = ["#f4a6c1", "#c084fc", "#60a5fa", "#34d399"];
+const REASON_COLORS = [
+  "#ec4899",
+  "#a855f7",
+  "#f59e0b",
+  "#3b82f6",
+  "#10b981",
+  "#ef4444",
+  "#6b7280",
+];
+
+const SummaryCard = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-pink-400">{value}</p>
+  </div>
+);
+
+const ServiceAnalytics = ({ range }: ServiceAnalyticsProps) => {
+  const { data: requests = [], isLoading, isError } =
+    useGetServiceRequestsInRangeQuery({ from: range.from, to: range.to });
+  const { data: staffResponse } = useGetAllUserQuery({
+    isStaff: true,
+    limit: 1000,
+  });
+  const staffList = staffResponse?.data;
+
+  const analytics = useMemo(
+    () => buildServiceAnalytics(requests, range.granularity, staffList),
+    [requests, range.granularity, staffList]
+  );
+
+  const volumeData = analytics.volume.map(({ label, counts }) => ({
+    label,
+    ...counts,
+  }));
+  const decided = analytics.outcomes.reduce(
+    (sum, outcome) => sum + outcome.accepted + outcome.declined,
+    0
+  );
+  const accepted = analytics.outcomes.reduce(
+    (sum, outcome) => sum + outcome.accepted,
+    0
+  );
+
+  return (
+    <div className="bg-white p-6 shadow-sm rounded-xl border-b-2 border-gray-400 text-gray-800 my-16">
+      <h2 className="text-black font-semibold text-lg mb-6">
+        Service Operations
+      </h2>
+
+      {isLoading ? (
+        <p className="text-center text-gray-500">
+          Loading service analytics...
+        </p>
+      ) : isError ? (
+        <p className="text-center text-red-500">
+          Failed to load service analytics.
+        </p>
+      ) : (
+        <div className="space-y-10">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <SummaryCard
+              label="Requests"
+              value={analytics.total.toLocaleString()}
+            />
+            <SummaryCard
+              label="Acceptance Rate"
+              value={
+                decided === 0
+                  ? "—"
+                  : `${Math.round((accepted / decided) * 1000) / 10}%`
+              }
+            />
+            <SummaryCard
+              label="Median Time to Decision"
+              value={formatDuration(analytics.medianDecisionHours)}
+            />
+            <SummaryCard
+              label="Median Time to Delivery"
+              value={formatDuration(analytics.medianDeliveryHours)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+            <div>
+              <h3 className="font-semibold mb-4">Request Volume</h3>
+              <ResponsiveContainer width="100%" height={280}>
+                <BarChart data={volumeData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f2cbd6" />
+                  <XAxis dataKey="label" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  {SERVICE_TYPES.map((service, index) => (
+                    <Bar
+                      key={service}
+                      dataKey={service}
+                      name={getServiceDefinition(service).label}
+                      stackId="volume"
+                      fill={SERVICE_COLORS[index % SERVICE_COLORS.length]}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-4">Outcomes by Service</h3>
+              <table className="w-full border border-pink-200 text-center">
+                <thead>
+                  <tr className="bg-fuchsia-100">
+                    <th className="p-2 border border-pink-200 text-left">
+                      Service
+                    </th>
+                    <th className="p-2 border border-pink-200">Total</th>
+                    <th className="p-2 border border-pink-200">Accepted</th>
+                    <th className="p-2 border border-pink-200">Declined</th>
+                    <th className="p-2 border border-pink-200">Pending</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.outcomes.map((outcome) => (
+                    <tr key={outcome.service}>
+                      <td className="p-2 border border-pink-200 text-left font-medium">
+                        {outcome.label}
+                      </td>
+                      <td className="p-2 border border-pink-200">
+                        {outcome.total}
+                      </td>
+                      <td className="p-2 border border-pink-200">
+                        {outcome.accepted}
+                        {outcome.acceptanceRate !== null &&
+                          ` (${outcome.acceptanceRate}%)`}
+                      </td>
+                      <td className="p-2 border border-pink-200">
+                        {outcome.declined}
+                        {outcome.declineRate !== null &&
+                          ` (${outcome.declineRate}%)`}
+                      </td>
+                      <td className="p-2 border border-pink-200">
+                        {outcome.pending}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                Rates are a share of decided requests.
+              </p>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-4">Decline Reasons</h3>
+              {analytics.declineReasons.length === 0 ? (
+                <p className="text-gray-500 italic">
+                  No requests were declined in this period.
+                </p>
+              ) : (
+                <ResponsiveContainer width="100%" height={280}>
+                  <PieChart>
+                    <Pie
+                      data={analytics.declineReasons}
+                      dataKey="count"
+                      nameKey="label"
+                      outerRadius={100}
+                    >
+                      {analytics.declineReasons.map((reason, index) => (
+                        <Cell
+                          key={reason.code}
+                          fill={REASON_COLORS[index % REASON_COLORS.length]}
+                        />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                    <Legend />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-4">Staff Throughput</h3>
+              {analytics.staffThroughput.length === 0 ? (
+                <p className="text-gray-500 italic">
+                  No decisions or deliveries recorded in this period.
+                </p>
+              ) : (
+                <ResponsiveContainer
+                  width="100%"
+                  height={Math.max(200, analytics.staffThroughput.length * 40)}
+                >
+                  <BarChart data={analytics.staffThroughput} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f2cbd6" />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar
+                      dataKey="accepted"
+                      name="Accepted"
+                      stackId="staff"
+                      fill="#34d399"
+                    />
+                    <Bar
+                      dataKey="declined"
+                      name="Declined"
+                      stackId="staff"
+                      fill="#fbbf24"
+                    />
+                    <Bar
+                      dataKey="delivered"
+                      name="Delivered"
+                      stackId="staff"
+                      fill="#60a5fa"
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceAnalytics;
@@ -0,0 +1,67 @@
+"use client";
+import { usePermissions } from "@/hooks/usePermissions";
+import { StaffWorkload } from "@/types";
+import { getFullName } from "@/utils/staff";
+import Link from "next/link";
+
+interface StaffWorkloadProps {
+  workload: StaffWorkload[];
+}
+
+const StaffWorkloadTable = ({ workload }: StaffWorkloadProps) => {
+  const { can } = usePermissions();
+  // Busiest staff first
+  const sorted = [...workload].sort(
+    (a, b) =>
+      b.pending + b.awaitingDelivery - (a.pending + a.awaitingDelivery)
+  );
+
+  return (
+    <div className="p-6 bg-white shadow-md rounded-xl text-gray-800 my-16 border-b-2 border-gray-400 overflow-x-auto">
+      <h2 className="text-xl font-semibold mb-4">Staff Workload</h2>
+      {sorted.length === 0 ? (
+        <p className="text-center text-gray-600">
+          No requests are currently assigned to staff.
+        </p>
+      ) : (
+        <table className="w-full border border-pink-200 rounded-2xl">
+          <thead>
+            <tr className="bg-fuchsia-100">
+              <th className="p-2 border border-pink-200 text-left">Staff</th>
+              <th className="p-2 border border-pink-200">Pending Review</th>
+              <th className="p-2 border border-pink-200">Awaiting Delivery</th>
+              <th className="p-2 border border-pink-200">Total Open</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(({ staff, pending, awaitingDelivery }) => (
+              <tr key={staff._id} className="text-center">
+                <td className="p-2 border border-pink-200 text-left">
+                  {can("staff:view") ? (
+                    <Link
+                      href={`/dashboard/staff/${staff._id}`}
+                      className="font-medium text-pink-600 hover:underline"
+                    >
+                      {getFullName(staff)}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{getFullName(staff)}</span>
+                  )}
+                </td>
+                <td className="p-2 border border-pink-200">{pending}</td>
+                <td className="p-2 border border-pink-200">
+                  {awaitingDelivery}
+                </td>
+                <td className="p-2 border border-pink-200 font-semibold">
+                  {pending + awaitingDelivery}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default StaffWorkloadTable;
@@ -0,0 +1,85 @@
+"use client";
+import { getStatDelta } from "@/utils/dashboardRange";
+import { ArrowDown, ArrowUp, LucideIcon, Minus } from "lucide-react";
+import Link from "next/link";
+
+interface StatCardProps {
+  label: string;
+  value: number;
+  // Same stat for the previous period; the delta is hidden while it loads
+  previousValue?: number;
+  icon: LucideIcon;
+  iconClassName: string;
+  iconBgClassName: string;
+  // Growth is good for users and requests but bad for blocked/incomplete
+  higherIsBetter?: boolean;
+  // Filtered list the card opens; without one the card is static
+  href?: string;
+}
+
+const StatCard = ({
+  label,
+  value,
+  previousValue,
+  icon: Icon,
+  iconClassName,
+  iconBgClassName,
+  higherIsBetter = true,
+  href,
+}: StatCardProps) => {
+  const delta =
+    previousValue !== undefined ? getStatDelta(value, previousValue) : null;
+  const DeltaIcon =
+    !delta || delta.change === 0
+      ? Minus
+      : delta.change > 0
+        ? ArrowUp
+        : ArrowDown;
+  const deltaColor =
+    !delta || delta.change === 0
+      ? "text-gray-500"
+      : delta.change > 0 === higherIsBetter
+        ? "text-green-600"
+        : "text-red-600";
+
+  const content = (
+    <>
+      <div className={`p-4 rounded-full ${iconBgClassName}`}>
+        <Icon className={`w-8 h-8 ${iconClassName}`} />
+      </div>
+      <div>
+        <p className="text-gray-600 text-md font-medium">{label}</p>
+        <h2 className="text-2xl font-bold text-pink-400 group-hover:text-white">
+          {value.toLocaleString()}
+        </h2>
+        {delta && (
+          <p
+            className={`text-xs font-medium flex items-center gap-0.5 ${deltaColor}`}
+            title={`Previous period: ${previousValue?.toLocaleString()}`}
+          >
+            <DeltaIcon size={12} />
+            {delta.change > 0 ? "+" : ""}
+            {delta.change.toLocaleString()}
+            {delta.percent !== null && ` (${delta.percent > 0 ? "+" : ""}${delta.percent}%)`}
+            <span className="text-gray-500 font-normal ml-1">vs prev.</span>
+          </p>
+        )}
+      </div>
+    </>
+  );
+
+  return href ? (
+    <Link
+      href={href}
+      className="bg-white hover:bg-pink-200 rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400 group"
+    >
+      {content}
+    </Link>
+  ) : (
+    <div className="bg-white rounded-xl shadow-md p-6 flex items-center gap-4 border-b-2 border-gray-400">
+      {content}
+    </div>
+  );
+};
+
+export default StatCard;
@@ -2,31 +2,184 @@
 
 import {
   useGetAllUserQuery,
+  useLazyGetAllUserQuery,
   useToggleUserStatusMutation,
   useDeleteUserMutation,
 } from "@/api/userApi";
-import { User as UserIcon, Trash2, PlusCircle } from "lucide-react";
+import {
+  User as UserIcon,
+  Trash2,
+  PlusCircle,
+  Download,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+} from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useState } from "react";
 import toast from "react-hot-toast";
 import { CreateStaffModal } from "../Staff/CreateStaffModal";
+import { USER_CSV_COLUMNS } from "@/config/exportColumns";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { usePermissions } from "@/hooks/usePermissions";
+import { downloadCsv, fetchAllPages, getExportFilename } from "@/utils/export";
+import {
+  STAFF_ROLE_FILTERS,
+  USER_SORT_FIELDS,
+  USER_STATUS_FILTERS,
+} from "@/config/userFilters";
+import {
+  mergeQueryParams,
+  parsePageParam,
+  parseQueryOption,
+} from "@/utils/queryParams";
+import {
+  SortOrder,
+  UserQueryParams,
+  UserRole,
+  UserSortField,
+  UserStatusFilter,
+} from "@/types";
 // Import the modal
 
+// Column header that cycles the list sort for its field
+const SortableHeader = ({
+  field,
+  label,
+  sortBy,
+  sortOrder,
+  onSort,
+}: {
+  field: UserSortField;
+  label: string;
+  sortBy: UserSortField | "";
+  sortOrder: SortOrder;
+  onSort: (field: UserSortField) => void;
+}) => {
+  const isActive = sortBy === field;
+  const SortIcon = !isActive
+    ? ArrowUpDown
+    : sortOrder === "asc"
+      ? ArrowUp
+      : ArrowDown;
+  return (
+    <th className="p-2 border border-pink-200">
+      <button
+        onClick={() => onSort(field)}
+        className="inline-flex items-center gap-1 font-bold hover:text-pink-600"
+      >
+        {label}
+        <SortIcon
+          size={14}
+          className={isActive ? "text-pink-600" : "text-gray-400"}
+        />
+      </button>
+    </th>
+  );
+};
+
 interface UserManagementPageProps {
   userType: "user" | "staff";
 }
 
 const UserManagementPage = ({ userType }: UserManagementPageProps) => {
   const isStaffPage = userType === "staff";
-  const [page, setPage] = useState(1);
   const [limit] = useState(15);
+  const { can } = usePermissions();
+  // Staff rows offer delete, patient rows the block toggle
+  const canManageRows = isStaffPage ? can("staff:delete") : can("users:block");
+
+  // Page and filters come from the URL (e.g. ?status=blocked) so the
+  // dashboard can link to a filtered list and views can be bookmarked
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const updateQuery = (changes: Record<string, string | number | undefined>) =>
+    router.replace(`${pathname}${mergeQueryParams(searchParams, changes)}`, {
+      scroll: false,
+    });
+
+  const page = parsePageParam(searchParams.get("page"));
+  const setPage = (nextPage: number) =>
+    updateQuery({ page: nextPage > 1 ? nextPage : undefined });
+  const status = parseQueryOption<UserStatusFilter | "">(
+    searchParams.get("status"),
+    USER_STATUS_FILTERS.map((filter) => filter.value),
+    ""
+  );
+  const verified = parseQueryOption(
+    searchParams.get("verified"),
+    ["true", "false", ""],
+    ""
+  );
+  const role = isStaffPage
+    ? parseQueryOption<UserRole | "">(
+      searchParams.get("role"),
+      STAFF_ROLE_FILTERS.map((filter) => filter.value),
+      ""
+    )
+    : "";
+  const search = searchParams.get("search") || "";
+  const [searchInput, setSearchInput] = useState(search);
+  const sortBy = parseQueryOption<UserSortField | "">(
+    searchParams.get("sortBy"),
+    USER_SORT_FIELDS,
+    ""
+  );
+  const sortOrder = parseQueryOption<SortOrder>(
+    searchParams.get("sortOrder"),
+    ["asc", "desc"],
+    "asc"
+  );
+  const hasActiveFilters = Boolean(search || status || verified || role);
+
+  // Filters shared by the list and the CSV export
+  const listFilters: UserQueryParams = {
+    isStaff: isStaffPage,
+    search,
+    status: status || undefined,
+    verified: verified ? verified === "true" : undefined,
+    role: role || undefined,
+    sortBy: sortBy || undefined,
+    sortOrder: sortBy ? sortOrder : undefined,
+  };
+
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({ search: searchInput.trim(), page: undefined });
+  };
+
+  const handleResetFilters = () => {
+    setSearchInput("");
+    updateQuery({
+      search: undefined,
+      status: undefined,
+      verified: undefined,
+      role: undefined,
+      page: undefined,
+    });
+  };
+
+  // First click sorts ascending, second descending, third clears the sort
+  const handleSort = (field: UserSortField) => {
+    if (sortBy !== field) {
+      updateQuery({ sortBy: field, sortOrder: "asc", page: undefined });
+    } else if (sortOrder === "asc") {
+      updateQuery({ sortOrder: "desc", page: undefined });
+    } else {
+      updateQuery({ sortBy: undefined, sortOrder: undefined, page: undefined });
+    }
+  };
   // State to control the visibility of the "Create Staff" modal
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   const pageTitle = isStaffPage ? "Staff Management" : "Users";
   const listTitle = isStaffPage ? "Staff List" : "User List";
-  const emptyListMessage = `No ${userType}s found.`;
+  const emptyListMessage = hasActiveFilters
+    ? `No ${userType}s match these filters.`
+    : `No ${userType}s found.`;
   const detailsLinkPrefix = isStaffPage
     ? "/dashboard/staff"
     : "/dashboard/user";
@@ -38,11 +191,37 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
     isError,
     error,
     refetch,
-  } = useGetAllUserQuery({ page, limit, isStaff: isStaffPage });
+  } = useGetAllUserQuery({ ...listFilters, page, limit });
 
   const [toggleUserStatus, { isLoading: isTogglingStatus }] =
     useToggleUserStatusMutation();
   const [deleteUser, { isLoading: isDeleting }] = useDeleteUserMutation();
+  const [fetchUsers] = useLazyGetAllUserQuery();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllPages((pageNumber) =>
+        fetchUsers({
+          ...listFilters,
+          page: pageNumber,
+          limit: 100,
+        }).unwrap()
+      );
+      downloadCsv(
+        getExportFilename(isStaffPage ? "staff" : "users"),
+        rows,
+        USER_CSV_COLUMNS
+      );
+      toast.success(`Exported ${rows.length} ${userType}s.`);
+    } catch (err) {
+      console.error("Failed to export users:", err);
+      toast.error(getApiErrorMessage(err, `Failed to export ${userType}s.`));
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const handleToggleStatus = async (
     id: string,
@@ -108,21 +287,126 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
           <h1 className="text-2xl font-bold">{pageTitle}</h1>
         </div>
 
+        {/* Filters */}
+        <div className="p-4 bg-white shadow-md rounded-md text-gray-800 flex flex-wrap items-end gap-4">
+          <form onSubmit={handleSearchSubmit} className="flex-1 min-w-[220px]">
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Search
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder={
+                  isStaffPage
+                    ? "Name, email or phone"
+                    : "Name, email, phone or NHS number"
+                }
+                className="w-full px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-pink-400 text-white rounded-md hover:bg-pink-500 transition-colors"
+              >
+                Search
+              </button>
+            </div>
+          </form>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Status
+            </label>
+            <select
+              value={status}
+              onChange={(e) =>
+                updateQuery({ status: e.target.value, page: undefined })
+              }
+              className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+            >
+              <option value="">All</option>
+              {USER_STATUS_FILTERS.map((filter) => (
+                <option key={filter.value} value={filter.value}>
+                  {filter.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Verified
+            </label>
+            <select
+              value={verified}
+              onChange={(e) =>
+                updateQuery({ verified: e.target.value, page: undefined })
+              }
+              className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+            >
+              <option value="">All</option>
+              <option value="true">Verified</option>
+              <option value="false">Not verified</option>
+            </select>
+          </div>
+          {isStaffPage && (
+            <div>
+              <label className="block text-sm font-medium text-gray-600 mb-1">
+                Role
+              </label>
+              <select
+                value={role}
+                onChange={(e) =>
+                  updateQuery({ role: e.target.value, page: undefined })
+                }
+                className="px-3 py-2 border border-pink-200 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-300"
+              >
+                <option value="">All</option>
+                {STAFF_ROLE_FILTERS.map((filter) => (
+                  <option key={filter.value} value={filter.value}>
+                    {filter.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {hasActiveFilters && (
+            <button
+              onClick={handleResetFilters}
+              className="px-4 py-2 text-sm text-pink-700 bg-pink-100 rounded-md hover:bg-pink-200"
+            >
+              Clear Filters
+            </button>
+          )}
+        </div>
+
         {/* User Table Card (Design is preserved) */}
         <div className="p-6 bg-white shadow-md rounded-xl text-gray-800 my-16 border-b-2 border-gray-400 overflow-x-auto">
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-xl font-semibold">{listTitle}</h2>
 
-            {/* "Create Staff" is now a button that opens the modal */}
-            {isStaffPage && (
-              <button
-                onClick={() => setIsModalOpen(true)}
-                className="flex items-center gap-2 px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors shadow-sm"
-              >
-                <PlusCircle size={20} />
-                Create Staff
-              </button>
-            )}
+            <div className="flex items-center gap-3">
+              {can("users:export") && (
+                <button
+                  onClick={handleExportCsv}
+                  disabled={isExporting || users.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-fuchsia-100 text-fuchsia-700 rounded-lg hover:bg-fuchsia-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download size={20} />
+                  {isExporting ? "Exporting..." : "Export CSV"}
+                </button>
+              )}
+
+              {/* "Create Staff" is now a button that opens the modal */}
+              {isStaffPage && can("staff:create") && (
+                <button
+                  onClick={() => setIsModalOpen(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition-colors shadow-sm"
+                >
+                  <PlusCircle size={20} />
+                  Create Staff
+                </button>
+              )}
+            </div>
 
             {isFetching && !isLoading && (
               <span className="text-pink-400 text-sm">Updating...</span>
@@ -136,10 +420,34 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
               <thead>
                 <tr className="bg-fuchsia-100">
                   <th className="p-2 border border-pink-200">Image</th>
-                  <th className="p-2 border border-pink-200">Name</th>
-                  <th className="p-2 border border-pink-200">Email</th>
+                  <SortableHeader
+                    field="firstName"
+                    label="Name"
+                    sortBy={sortBy}
+                    sortOrder={sortOrder}
+                    onSort={handleSort}
+                  />
+                  <SortableHeader
+                    field="email"
+                    label="Email"
+                    sortBy={sortBy}
+                    sortOrder={sortOrder}
+                    onSort={handleSort}
+                  />
+                  {!isStaffPage && (
+                    <th className="p-2 border border-pink-200">NHS No.</th>
+                  )}
+                  <SortableHeader
+                    field="createdAt"
+                    label="Joined"
+                    sortBy={sortBy}
+                    sortOrder={sortOrder}
+                    onSort={handleSort}
+                  />
                   <th className="p-2 border border-pink-200">Status</th>
-                  <th className="p-2 border border-pink-200">Block/Unblock</th>
+                  {canManageRows && (
+                    <th className="p-2 border border-pink-200">Block/Unblock</th>
+                  )}
                   <th className="p-2 border border-pink-200">Action</th>
                 </tr>
               </thead>
@@ -163,6 +471,16 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
                       {`${user.firstName} ${user.surname || ""}`.trim()}
                     </td>
                     <td className="p-2 border border-pink-200">{user.email}</td>
+                    {!isStaffPage && (
+                      <td className="p-2 border border-pink-200">
+                        {user.nhs || "—"}
+                      </td>
+                    )}
+                    <td className="p-2 border border-pink-200">
+                      {user.createdAt
+                        ? new Date(user.createdAt).toLocaleDateString("en-GB")
+                        : "—"}
+                    </td>
                     <td className="p-2 border border-pink-200">
                       {user.blocked ? (
                         <span className="px-2 py-1 text-xs font-semibold text-white bg-red-500 rounded-full">
@@ -174,39 +492,41 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
                         </span>
                       )}
                     </td>
-                    <td className="p-2 border border-pink-200">
-                      {isStaffPage ? (
-                        <button
-                          onClick={() =>
-                            handleDeleteUser(
-                              user._id,
-                              `${user.firstName} ${user.surname || ""}`.trim()
-                            )
-                          }
-                          disabled={isDeleting}
-                          className="flex items-center justify-center gap-1 mx-auto px-3 py-1 bg-transparent hover:bg-red-500 text-red-600 hover:text-white rounded border border-red-500 disabled:opacity-50"
-                        >
-                          <Trash2 size={16} /> Delete
-                        </button>
-                      ) : (
-                        <div className="w-full flex gap-5 justify-center items-center px-4 py-2">
-                          <span>{user.blocked ? "Unblock" : "Block"}</span>
-                          <label className="relative inline-flex items-center cursor-pointer">
-                            <input
-                              type="checkbox"
-                              className="sr-only peer"
-                              checked={user.blocked}
-                              onChange={() =>
-                                handleToggleStatus(user._id, user.blocked)
-                              }
-                              disabled={isTogglingStatus}
-                            />
-                            <div className="w-11 h-6 bg-green-500 rounded-full transition-colors peer-focus:ring-2 peer-focus:ring-pink-300 peer-checked:bg-red-500"></div>
-                            <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
-                          </label>
-                        </div>
-                      )}
-                    </td>
+                    {canManageRows && (
+                      <td className="p-2 border border-pink-200">
+                        {isStaffPage ? (
+                          <button
+                            onClick={() =>
+                              handleDeleteUser(
+                                user._id,
+                                `${user.firstName} ${user.surname || ""}`.trim()
+                              )
+                            }
+                            disabled={isDeleting}
+                            className="flex items-center justify-center gap-1 mx-auto px-3 py-1 bg-transparent hover:bg-red-500 text-red-600 hover:text-white rounded border border-red-500 disabled:opacity-50"
+                          >
+                            <Trash2 size={16} /> Delete
+                          </button>
+                        ) : (
+                          <div className="w-full flex gap-5 justify-center items-center px-4 py-2">
+                            <span>{user.blocked ? "Unblock" : "Block"}</span>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                              <input
+                                type="checkbox"
+                                className="sr-only peer"
+                                checked={user.blocked}
+                                onChange={() =>
+                                  handleToggleStatus(user._id, user.blocked)
+                                }
+                                disabled={isTogglingStatus}
+                              />
+                              <div className="w-11 h-6 bg-green-500 rounded-full transition-colors peer-focus:ring-2 peer-focus:ring-pink-300 peer-checked:bg-red-500"></div>
+                              <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
+                            </label>
+                          </div>
+                        )}
+                      </td>
+                    )}
                     <td className="p-2 border border-pink-200">
                       <Link
                         href={`${detailsLinkPrefix}/${user._id}`}
@@ -225,7 +545,7 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
           {totalPage > 1 && (
             <div className="flex justify-end items-center mt-6 space-x-2">
               <button
-                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                onClick={() => setPage(Math.max(1, page - 1))}
                 disabled={page === 1 || isFetching}
                 className="px-4 py-2 text-sm font-medium text-pink-700 bg-pink-100 rounded-lg hover:bg-pink-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
@@ -235,7 +555,7 @@ const UserManagementPage = ({ userType }: UserManagementPageProps) => {
                 Page {page} of {totalPage}
               </span>
               <button
-                onClick={() => setPage((p) => Math.min(totalPage, p + 1))}
+                onClick={() => setPage(Math.min(totalPage, page + 1))}
                 disabled={page === totalPage || isFetching}
                 className="px-4 py-2 text-sm font-medium text-pink-700 bg-pink-100 rounded-lg hover:bg-pink-200 disabled:opacity-50 disabled:cursor-not-allowed"
               >
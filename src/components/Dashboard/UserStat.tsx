@@ -12,16 +12,18 @@ import {
 
 interface UserStatProps {
   monthlyStats: MonthlyUserStat[];
+  // Describes the selected range, e.g. "1 Jan 2026 – 31 Mar 2026, by week"
+  periodLabel: string;
 }
 
-const UserStat = ({ monthlyStats }: UserStatProps) => {
+const UserStat = ({ monthlyStats, periodLabel }: UserStatProps) => {
   return (
     <div className="bg-white p-4 shadow-sm rounded-xl border-b-2 border-gray-400 text-gray-800">
       {/* Header */}
       <div className="flex items-center justify-between mb-8 mx-5">
         <h2 className="text-black font-semibold text-lg">
           User Stats{" "}
-          <span className="font-normal text-gray-500">(Last Year)</span>
+          <span className="font-normal text-gray-500">({periodLabel})</span>
         </h2>
       </div>
 
@@ -0,0 +1,51 @@
+"use client";
+import { useEffect } from "react";
+import { useSelector } from "react-redux";
+import {
+  applyServiceRequestUpdate,
+  insertServiceRequest,
+  withServiceType,
+} from "@/api/serviceApi";
+import { SERVICE_REQUEST_EVENTS } from "@/config/constants";
+import { useSocket } from "@/context/SocketContext";
+import { addNewRequest } from "@/features/serviceQueue/serviceQueueSlice";
+import { RootState, useAppDispatch } from "@/store";
+import { ServiceRequestSocketEvent } from "@/types";
+import { playNotificationSound } from "@/utils/notificationUtils";
+
+// Keeps the cached POP/COCP lists in step with requests created or changed
+// by patients and other staff
+export const ServiceQueueListener = () => {
+  const { socket, isConnected } = useSocket();
+  const dispatch = useAppDispatch();
+  const soundEnabled = useSelector(
+    (state: RootState) => state.serviceQueue.soundEnabled
+  );
+
+  useEffect(() => {
+    if (socket && isConnected) socket.emit(SERVICE_REQUEST_EVENTS.join);
+  }, [socket, isConnected]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleCreated = ({ service, request }: ServiceRequestSocketEvent) => {
+      dispatch(insertServiceRequest(withServiceType(request, service)));
+      dispatch(addNewRequest({ id: request._id, service }));
+      if (soundEnabled) playNotificationSound();
+    };
+    const handleUpdated = ({ service, request }: ServiceRequestSocketEvent) => {
+      dispatch(applyServiceRequestUpdate(withServiceType(request, service)));
+    };
+
+    socket.on(SERVICE_REQUEST_EVENTS.created, handleCreated);
+    socket.on(SERVICE_REQUEST_EVENTS.updated, handleUpdated);
+
+    return () => {
+      socket.off(SERVICE_REQUEST_EVENTS.created, handleCreated);
+      socket.off(SERVICE_REQUEST_EVENTS.updated, handleUpdated);
+    };
+  }, [socket, dispatch, soundEnabled]);
+
+  return null;
+};
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import toast from "react-hot-toast";
+import { useAssignServiceRequestMutation } from "@/api/serviceApi";
+import { useGetAllUserQuery } from "@/api/userApi";
+import { usePermissions } from "@/hooks/usePermissions";
+import { RootState } from "@/store";
+import { ServiceRequest } from "@/types";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { getFullName, resolveStaffReference } from "@/utils/staff";
+import { StaffLink } from "../Staff/StaffLink";
+
+interface AssignmentControlProps {
+  request: ServiceRequest;
+}
+
+export const AssignmentControl = ({ request }: AssignmentControlProps) => {
+  const currentUserId = useSelector((state: RootState) => state.auth.user?._id);
+  const { can } = usePermissions();
+
+  const { data: staffResponse, isLoading: isStaffLoading } = useGetAllUserQuery({
+    isStaff: true,
+    limit: 1000,
+  });
+  const staffList = staffResponse?.data || [];
+
+  const assigneeId =
+    resolveStaffReference(request.assignedTo, staffList)?.id || "";
+  // Follows the current assignee (which resolves once the staff list loads
+  // and changes with live updates) until the user picks someone else
+  const [userChoice, setUserChoice] = useState<string | null>(null);
+  const selectedStaff = userChoice ?? assigneeId;
+
+  const [assignRequest, { isLoading: isAssigning }] =
+    useAssignServiceRequestMutation();
+
+  const handleAssign = async (staffId: string) => {
+    try {
+      await assignRequest({
+        service: request.serviceType,
+        id: request._id,
+        assignedTo: staffId || null,
+      }).unwrap();
+      setUserChoice(null);
+      toast.success(
+        staffId ? "Request assigned successfully!" : "Request unassigned."
+      );
+    } catch (err) {
+      console.error("Failed to assign request:", err);
+      toast.error(getApiErrorMessage(err, "Failed to assign request."));
+    }
+  };
+
+  const currentAssignee = (
+    <div className="flex-1">
+      <p className="text-sm text-gray-500">Currently Assigned To</p>
+      <p className="mt-1">
+        <StaffLink
+          staff={request.assignedTo}
+          staffList={staffList}
+          fallback="Unassigned"
+        />
+      </p>
+    </div>
+  );
+
+  // Roles without assign rights still see who owns the request
+  if (!can("requests:assign")) return currentAssignee;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+      {currentAssignee}
+      <div className="flex-1">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Reassign To
+        </label>
+        <select
+          value={selectedStaff}
+          onChange={(e) => setUserChoice(e.target.value)}
+          disabled={isAssigning || isStaffLoading}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+        >
+          <option value="">Unassigned</option>
+          {staffList.map((staff) => (
+            <option key={staff._id} value={staff._id}>
+              {getFullName(staff)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => handleAssign(selectedStaff)}
+          disabled={isAssigning || selectedStaff === assigneeId}
+          className="px-4 py-2 bg-pink-500 text-white font-semibold rounded-lg hover:bg-pink-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+        >
+          {isAssigning ? "Saving..." : "Save"}
+        </button>
+        {currentUserId && currentUserId !== assigneeId && (
+          <button
+            onClick={() => handleAssign(currentUserId)}
+            disabled={isAssigning}
+            className="px-4 py-2 bg-fuchsia-100 text-fuchsia-700 font-semibold rounded-lg hover:bg-fuchsia-200 disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            Assign to Me
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
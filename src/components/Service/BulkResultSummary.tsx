@@ -0,0 +1,89 @@
+"use client";
+
+import { CheckCircle, MinusCircle, X, XCircle } from "lucide-react";
+import { BulkOutcome, BulkResult } from "@/utils/bulkActions";
+
+interface BulkResultSummaryProps {
+  title: string;
+  results: BulkResult[] | null;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<
+  BulkOutcome,
+  { label: string; className: string; icon: typeof CheckCircle }
+> = {
+  success: { label: "Succeeded", className: "text-green-600", icon: CheckCircle },
+  failed: { label: "Failed", className: "text-red-600", icon: XCircle },
+  skipped: { label: "Skipped", className: "text-gray-500", icon: MinusCircle },
+};
+
+const OUTCOME_ORDER: BulkOutcome[] = ["failed", "skipped", "success"];
+
+export const BulkResultSummary = ({
+  title,
+  results,
+  onClose,
+}: BulkResultSummaryProps) => {
+  if (!results) return null;
+
+  // Problems first so they are not lost below a long list of successes
+  const sorted = [...results].sort(
+    (a, b) => OUTCOME_ORDER.indexOf(a.outcome) - OUTCOME_ORDER.indexOf(b.outcome)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-opacity-25 z-40 flex justify-center items-center backdrop-blur-sm">
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-lg m-4 relative text-gray-800">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X size={24} />
+        </button>
+
+        <h2 className="text-2xl font-bold mb-4 text-pink-500">{title}</h2>
+
+        <div className="flex flex-wrap gap-4 mb-4 text-sm">
+          {OUTCOME_ORDER.map((outcome) => {
+            const count = results.filter((r) => r.outcome === outcome).length;
+            return (
+              <span
+                key={outcome}
+                className={`font-semibold ${OUTCOME_STYLES[outcome].className}`}
+              >
+                {OUTCOME_STYLES[outcome].label}: {count}
+              </span>
+            );
+          })}
+        </div>
+
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {sorted.map((result) => {
+            const { icon: Icon, className } = OUTCOME_STYLES[result.outcome];
+            return (
+              <li key={result.id} className="flex items-start gap-3 p-3">
+                <Icon size={18} className={`mt-0.5 shrink-0 ${className}`} />
+                <div>
+                  <p className="font-medium">{result.label}</p>
+                  {result.message && (
+                    <p className="text-sm text-gray-500">{result.message}</p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end pt-6">
+          <button
+            onClick={onClose}
+            className="bg-pink-500 text-white px-6 py-2 rounded-lg hover:bg-pink-600 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+"use client";
+
+import { ClinicalFlag, UkmecCategory } from "@/types";
+import { AlertOctagon, AlertTriangle, Info, ShieldCheck } from "lucide-react";
+
+interface ClinicalFlagsProps {
+  flags: ClinicalFlag[];
+  // Compact mode renders small badges for list rows; reasons move to the tooltip
+  compact?: boolean;
+}
+
+const categoryStyles: Record<
+  UkmecCategory,
+  { label: string; className: string; icon: typeof Info }
+> = {
+  4: {
+    label: "UKMEC 4",
+    className: "bg-red-100 text-red-700 border-red-300",
+    icon: AlertOctagon,
+  },
+  3: {
+    label: "UKMEC 3",
+    className: "bg-orange-100 text-orange-700 border-orange-300",
+    icon: AlertTriangle,
+  },
+  2: {
+    label: "UKMEC 2",
+    className: "bg-yellow-100 text-yellow-700 border-yellow-300",
+    icon: Info,
+  },
+};
+
+export const ClinicalFlags = ({ flags, compact = false }: ClinicalFlagsProps) => {
+  if (compact) {
+    if (flags.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-1">
+        {flags.map((flag) => {
+          const style = categoryStyles[flag.category];
+          return (
+            <span
+              key={flag.id}
+              title={`${style.label}: ${flag.reason}`}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium border ${style.className}`}
+            >
+              {flag.title}
+            </span>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (flags.length === 0) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg border border-green-300 bg-green-50 text-green-700">
+        <ShieldCheck size={18} />
+        <span className="font-medium">No contraindications flagged.</span>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {flags.map((flag) => {
+        const style = categoryStyles[flag.category];
+        const Icon = style.icon;
+        return (
+          <li
+            key={flag.id}
+            className={`flex items-start gap-3 p-3 rounded-lg border ${style.className}`}
+          >
+            <Icon size={18} className="mt-0.5 shrink-0" />
+            <div>
+              <p className="font-semibold">
+                {flag.title}{" "}
+                <span className="text-xs font-medium opacity-80">
+                  ({style.label})
+                </span>
+              </p>
+              <p className="text-sm">{flag.reason}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,141 @@
+"use client";
+
+import { AlertTriangle, ArrowDown, ArrowUp, Minus } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BP_BMI_RECHECK_INTERVAL_MONTHS } from "@/config/cocpReview";
+import { CocpMeasurement, getRecheckStatus } from "@/utils/cocpReview";
+
+interface CocpTrendProps {
+  measurements: CocpMeasurement[];
+}
+
+type MetricKey = "systolic" | "diastolic" | "bmi";
+
+const METRICS: { key: MetricKey; label: string; unit: string; color: string }[] =
+  [
+    { key: "systolic", label: "Systolic", unit: "mmHg", color: "#ec4899" },
+    { key: "diastolic", label: "Diastolic", unit: "mmHg", color: "#a855f7" },
+    { key: "bmi", label: "BMI", unit: "kg/m²", color: "#3b82f6" },
+  ];
+
+const formatDate = (isoString?: string) =>
+  isoString ? new Date(isoString).toLocaleDateString("en-GB") : "Never";
+
+// Latest value of a metric compared with the reading before it
+const MetricCard = ({
+  label,
+  unit,
+  values,
+}: {
+  label: string;
+  unit: string;
+  values: number[];
+}) => {
+  const latest = values[values.length - 1];
+  const previous = values[values.length - 2];
+  const delta =
+    latest !== undefined && previous !== undefined ? latest - previous : null;
+  const DeltaIcon =
+    delta === null || delta === 0 ? Minus : delta > 0 ? ArrowUp : ArrowDown;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-bold text-gray-800">
+        {latest ?? "—"}{" "}
+        <span className="text-sm font-normal text-gray-500">{unit}</span>
+      </p>
+      <p className="text-sm text-gray-600 flex items-center gap-1 mt-1">
+        <DeltaIcon size={14} />
+        {delta === null
+          ? "No previous reading"
+          : `${delta > 0 ? "+" : ""}${Math.round(delta * 10) / 10} vs previous (${previous})`}
+      </p>
+    </div>
+  );
+};
+
+export const CocpTrend = ({ measurements }: CocpTrendProps) => {
+  const recheck = getRecheckStatus(measurements);
+  const chartData = measurements.map((m) => ({
+    ...m,
+    date: new Date(m.at).toLocaleDateString("en-GB"),
+  }));
+
+  return (
+    <div className="space-y-6">
+      {(recheck.bloodPressureDue || recheck.bmiDue) && (
+        <div className="flex items-start gap-3 p-4 rounded-lg border border-red-300 bg-red-50 text-red-700">
+          <AlertTriangle className="shrink-0 mt-0.5" size={20} />
+          <div>
+            <p className="font-semibold">
+              Recheck overdue (required every {BP_BMI_RECHECK_INTERVAL_MONTHS}{" "}
+              months)
+            </p>
+            <p className="text-sm">
+              Last blood pressure: {formatDate(recheck.lastBloodPressureAt)} ·
+              Last BMI: {formatDate(recheck.lastBmiAt)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {METRICS.map((metric) => (
+          <MetricCard
+            key={metric.key}
+            label={metric.label}
+            unit={metric.unit}
+            values={measurements
+              .map((m) => m[metric.key])
+              .filter((v): v is number => v !== undefined)}
+          />
+        ))}
+      </div>
+
+      {measurements.length > 1 ? (
+        <ResponsiveContainer width="100%" height={280}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f2cbd6" />
+            <XAxis dataKey="date" />
+            <YAxis yAxisId="bp" domain={["auto", "auto"]} />
+            <YAxis
+              yAxisId="bmi"
+              orientation="right"
+              domain={["auto", "auto"]}
+            />
+            <Tooltip />
+            <Legend />
+            {METRICS.map((metric) => (
+              <Line
+                key={metric.key}
+                yAxisId={metric.key === "bmi" ? "bmi" : "bp"}
+                type="monotone"
+                dataKey={metric.key}
+                name={metric.label}
+                stroke={metric.color}
+                strokeWidth={2}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-gray-500 italic">
+          {measurements.length === 0
+            ? "No blood pressure or BMI readings on record."
+            : "Only one reading on record; the trend appears once the patient has more COCP requests."}
+        </p>
+      )}
+    </div>
+  );
+};
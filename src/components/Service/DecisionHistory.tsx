@@ -0,0 +1,67 @@
+"use client";
+
+import { ServiceDecision } from "@/types";
+import {
+  getDecisionReasonLabel,
+  getFollowUpActionLabel,
+} from "@/config/decisionReasons";
+import { StaffLink } from "../Staff/StaffLink";
+
+interface DecisionHistoryProps {
+  decisions: ServiceDecision[];
+}
+
+export const DecisionHistory = ({ decisions }: DecisionHistoryProps) => {
+  if (decisions.length === 0) {
+    return (
+      <p className="text-gray-500 italic">No decisions recorded yet.</p>
+    );
+  }
+
+  // Newest decision first
+  const sorted = [...decisions].sort(
+    (a, b) => new Date(b.decidedAt).getTime() - new Date(a.decidedAt).getTime()
+  );
+
+  return (
+    <ol className="space-y-4">
+      {sorted.map((decision, index) => (
+        <li
+          key={decision._id || index}
+          className="p-4 rounded-lg border border-gray-200 bg-gray-50"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span
+              className={`px-2 py-1 rounded-full text-xs font-medium ${decision.status === "accept"
+                  ? "bg-green-100 text-green-700"
+                  : "bg-red-100 text-red-700"
+                }`}
+            >
+              {decision.status === "accept" ? "Accepted" : "Declined"}
+            </span>
+            <span className="text-sm text-gray-500">
+              {new Date(decision.decidedAt).toLocaleString("en-GB")} by{" "}
+              <StaffLink staff={decision.decidedBy} />
+            </span>
+          </div>
+          {decision.reasonCode && (
+            <p className="mt-2">
+              <span className="text-sm text-gray-500">Reason: </span>
+              <span className="font-medium">
+                {getDecisionReasonLabel(decision.reasonCode)}
+              </span>
+            </p>
+          )}
+          {decision.note && (
+            <p className="mt-1 whitespace-pre-line">{decision.note}</p>
+          )}
+          {decision.followUpAction && (
+            <p className="mt-1 text-sm text-gray-600">
+              Follow-up: {getFollowUpActionLabel(decision.followUpAction)}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
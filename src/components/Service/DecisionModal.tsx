@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { X } from "lucide-react";
+import { DecisionStatus, ServiceDecisionInput } from "@/types";
+import { DECISION_REASONS, FOLLOW_UP_ACTIONS } from "@/config/decisionReasons";
+import {
+  DEFAULT_SUPPLY_MONTHS,
+  SUPPLY_MONTH_OPTIONS,
+} from "@/config/reorder";
+
+interface DecisionModalProps {
+  isOpen: boolean;
+  status: DecisionStatus;
+  // Shown under the title, e.g. the patient name or "12 requests"
+  subtitle?: string;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (decision: ServiceDecisionInput) => void;
+}
+
+type FormData = {
+  reasonCode: string;
+  note: string;
+  followUpAction: string;
+  suppliedMonths: string;
+};
+
+export const DecisionModal = ({
+  isOpen,
+  status,
+  subtitle,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}: DecisionModalProps) => {
+  const isDecline = status === "decline";
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FormData>();
+
+  // Start every decision from a blank form
+  useEffect(() => {
+    if (isOpen)
+      reset({
+        reasonCode: "",
+        note: "",
+        followUpAction: "none",
+        suppliedMonths: String(DEFAULT_SUPPLY_MONTHS),
+      });
+  }, [isOpen, status, reset]);
+
+  const submit = (data: FormData) => {
+    onSubmit({
+      status,
+      reasonCode: data.reasonCode || undefined,
+      note: data.note.trim() || undefined,
+      followUpAction:
+        data.followUpAction && data.followUpAction !== "none"
+          ? data.followUpAction
+          : undefined,
+      suppliedMonths: isDecline ? undefined : Number(data.suppliedMonths),
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-opacity-25 z-40 flex justify-center items-center backdrop-blur-sm">
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-lg m-4 relative text-gray-800">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+          disabled={isSubmitting}
+        >
+          <X size={24} />
+        </button>
+
+        <h2
+          className={`text-2xl font-bold mb-1 ${isDecline ? "text-yellow-600" : "text-green-600"
+            }`}
+        >
+          {isDecline ? "Decline Request" : "Accept Request"}
+        </h2>
+        {subtitle && <p className="text-gray-500 mb-6">{subtitle}</p>}
+
+        <form onSubmit={handleSubmit(submit)} className="space-y-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Reason {isDecline ? "" : "(optional)"}
+            </label>
+            <select
+              {...register("reasonCode", {
+                required: isDecline ? "A decline reason is required" : false,
+              })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+            >
+              <option value="">Select a reason</option>
+              {DECISION_REASONS[status].map((reason) => (
+                <option key={reason.code} value={reason.code}>
+                  {reason.label}
+                </option>
+              ))}
+            </select>
+            {errors.reasonCode && (
+              <p className="text-red-500 text-sm mt-1">
+                {errors.reasonCode.message}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Clinical Note {isDecline ? "" : "(optional)"}
+            </label>
+            <textarea
+              rows={4}
+              {...register("note", {
+                validate: (value) =>
+                  !isDecline ||
+                  value.trim().length > 0 ||
+                  "Please record why the request was declined",
+              })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+              placeholder="Clinical reasoning, advice given to the patient..."
+            />
+            {errors.note && (
+              <p className="text-red-500 text-sm mt-1">{errors.note.message}</p>
+            )}
+          </div>
+
+          {!isDecline && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Supply Duration
+              </label>
+              <select
+                {...register("suppliedMonths")}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+              >
+                {SUPPLY_MONTH_OPTIONS.map((months) => (
+                  <option key={months} value={months}>
+                    {months} month{months === 1 ? "" : "s"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Follow-up Action
+            </label>
+            <select
+              {...register("followUpAction")}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500 sm:text-sm"
+            >
+              {FOLLOW_UP_ACTIONS.map((action) => (
+                <option key={action.code} value={action.code}>
+                  {action.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="bg-gray-200 text-gray-800 px-6 py-2 rounded-lg hover:bg-gray-300 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`text-white px-6 py-2 rounded-lg transition disabled:bg-gray-300 disabled:cursor-not-allowed ${isDecline
+                  ? "bg-yellow-500 hover:bg-yellow-600"
+                  : "bg-green-500 hover:bg-green-600"
+                }`}
+            >
+              {isSubmitting
+                ? "Saving..."
+                : isDecline
+                  ? "Decline Request"
+                  : "Accept Request"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useUpdateServiceRequestDeliveryStatusMutation } from "@/api/serviceApi";
+import { useGetAllUserQuery } from "@/api/userApi";
+import { usePermissions } from "@/hooks/usePermissions";
+import { DeliveryStatus, ServiceRequest } from "@/types";
+import {
+  DELIVERY_STATUS_META,
+  PROBLEM_DELIVERY_STATUSES,
+  getNextDeliveryStatuses,
+} from "@/config/delivery";
+import { getApiErrorMessage } from "@/utils/apiError";
+import { DeliveryStatusBadge } from "./DeliveryStatusBadge";
+import { DeliveryTimeline } from "./DeliveryTimeline";
+import { StaffLink } from "../Staff/StaffLink";
+import { getFullName } from "@/utils/staff";
+
+interface DeliveryManagerProps {
+  request: ServiceRequest;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-pink-500 focus:border-pink-500";
+
+export const DeliveryManager = ({ request }: DeliveryManagerProps) => {
+  const { can } = usePermissions();
+  const nextStatuses = getNextDeliveryStatuses(request.deliveryStatus);
+
+  const [nextStatus, setNextStatus] = useState<DeliveryStatus | "">("");
+  const [courier, setCourier] = useState(request.courier || "");
+  const [trackingNumber, setTrackingNumber] = useState(
+    request.trackingNumber || ""
+  );
+  const [selectedStaff, setSelectedStaff] = useState("");
+  const [note, setNote] = useState("");
+
+  // Fetch staff members
+  const { data: staffResponse, isLoading: isStaffLoading } = useGetAllUserQuery({
+    isStaff: true,
+    limit: 1000,
+  });
+  const staffList = staffResponse?.data || [];
+
+  const [updateDeliveryStatus, { isLoading: isUpdating }] =
+    useUpdateServiceRequestDeliveryStatusMutation();
+
+  const isDispatching = nextStatus === DeliveryStatus.Dispatched;
+  const isDelivering = nextStatus === DeliveryStatus.Delivered;
+  const needsNote =
+    nextStatus === DeliveryStatus.Failed ||
+    nextStatus === DeliveryStatus.Returned;
+
+  const validate = (): string | null => {
+    if (!nextStatus) return "Please choose the next delivery status.";
+    if (isDispatching && !courier.trim())
+      return "Please enter the courier for this dispatch.";
+    if (isDelivering && !selectedStaff && !request.courier)
+      return "Please select the staff member who delivered the order.";
+    if (needsNote && !note.trim())
+      return "Please add a note explaining what happened.";
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validate();
+    if (error || !nextStatus) {
+      toast.error(error || "Please choose the next delivery status.");
+      return;
+    }
+
+    try {
+      await updateDeliveryStatus({
+        service: request.serviceType,
+        id: request._id,
+        deliveryStatus: nextStatus,
+        deliveredBy: isDelivering ? selectedStaff || undefined : undefined,
+        courier: isDispatching ? courier.trim() : undefined,
+        trackingNumber: isDispatching
+          ? trackingNumber.trim() || undefined
+          : undefined,
+        note: note.trim() || undefined,
+      }).unwrap();
+      toast.success("Delivery status updated successfully!");
+      setNextStatus("");
+      setNote("");
+    } catch (err) {
+      console.error("Failed to update delivery status:", err);
+      toast.error(getApiErrorMessage(err, "Failed to update status."));
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="p-6 bg-gray-50 rounded-lg border border-gray-200 flex flex-col gap-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Current Delivery Status</p>
+            <div className="mt-1">
+              <DeliveryStatusBadge status={request.deliveryStatus} />
+            </div>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Courier</p>
+            <p className="font-medium mt-1">
+              {request.courier || "Not assigned"}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Tracking Number</p>
+            <p className="font-medium mt-1 break-all">
+              {request.trackingNumber || "Not provided"}
+            </p>
+          </div>
+          {request.deliveredBy && (
+            <div>
+              <p className="text-sm text-gray-500">Delivered By</p>
+              <p className="mt-1">
+                <StaffLink staff={request.deliveredBy} staffList={staffList} />
+              </p>
+            </div>
+          )}
+        </div>
+
+        {nextStatuses.length > 0 ? (
+          can("requests:dispatch") && (
+            <form
+              onSubmit={handleSubmit}
+              className="flex flex-col gap-4 border-t pt-4 border-gray-200"
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Next Status
+                </label>
+                <select
+                  value={nextStatus}
+                  onChange={(e) =>
+                    setNextStatus(e.target.value as DeliveryStatus | "")
+                  }
+                  className={inputClassName}
+                  disabled={isUpdating}
+                >
+                  <option value="">Select status</option>
+                  {nextStatuses.map((status) => (
+                    <option key={status} value={status}>
+                      {DELIVERY_STATUS_META[status].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {isDispatching && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Courier
+                    </label>
+                    <input
+                      type="text"
+                      value={courier}
+                      onChange={(e) => setCourier(e.target.value)}
+                      placeholder="e.g. Royal Mail"
+                      className={inputClassName}
+                      disabled={isUpdating}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tracking Number
+                    </label>
+                    <input
+                      type="text"
+                      value={trackingNumber}
+                      onChange={(e) => setTrackingNumber(e.target.value)}
+                      className={inputClassName}
+                      disabled={isUpdating}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {isDelivering && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Delivered By (Staff)
+                  </label>
+                  <select
+                    value={selectedStaff}
+                    onChange={(e) => setSelectedStaff(e.target.value)}
+                    className={inputClassName}
+                    disabled={isUpdating || isStaffLoading}
+                  >
+                    <option value="">
+                      {request.courier
+                        ? `Delivered by ${request.courier}`
+                        : "Select Staff"}
+                    </option>
+                    {staffList.map((staff) => (
+                      <option key={staff._id} value={staff._id}>
+                        {getFullName(staff)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Note {needsNote ? "" : "(optional)"}
+                </label>
+                <textarea
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className={inputClassName}
+                  disabled={isUpdating}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isUpdating || !nextStatus}
+                className="self-end px-4 py-2 bg-pink-500 text-white font-semibold rounded-lg hover:bg-pink-600 disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+              >
+                {isUpdating ? "Updating..." : "Update Delivery"}
+              </button>
+            </form>
+          )
+        ) : PROBLEM_DELIVERY_STATUSES.includes(request.deliveryStatus) ? (
+          // Returned orders are a dead end; a new supply needs a new request
+          <p className="text-sm text-orange-700 bg-orange-50 border border-orange-300 rounded-lg p-3">
+            This order was{" "}
+            {DELIVERY_STATUS_META[request.deliveryStatus].label.toLowerCase()}{" "}
+            and cannot be updated further. Contact the patient to arrange a new
+            supply.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-500 border-t pt-4 border-gray-200">
+            This delivery is complete; no further updates are possible.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Delivery Timeline</h3>
+        <DeliveryTimeline
+          events={request.deliveryEvents || []}
+          staffList={staffList}
+        />
+      </div>
+    </div>
+  );
+};
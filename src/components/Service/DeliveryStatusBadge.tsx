@@ -0,0 +1,20 @@
+import { DeliveryStatus } from "@/types";
+import { DELIVERY_STATUS_META } from "@/config/delivery";
+
+export const DeliveryStatusBadge = ({
+  status,
+}: {
+  status?: DeliveryStatus;
+}) => {
+  const meta =
+    DELIVERY_STATUS_META[status || DeliveryStatus.Pending] ??
+    DELIVERY_STATUS_META[DeliveryStatus.Pending];
+
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium ${meta.className}`}
+    >
+      {meta.label}
+    </span>
+  );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import { DeliveryEvent, User } from "@/types";
+import { DELIVERY_STATUS_META } from "@/config/delivery";
+import { StaffLink } from "../Staff/StaffLink";
+
+interface DeliveryTimelineProps {
+  events: DeliveryEvent[];
+  // Used to resolve staff ids and legacy names to profiles
+  staffList?: User[];
+}
+
+export const DeliveryTimeline = ({
+  events,
+  staffList,
+}: DeliveryTimelineProps) => {
+  if (events.length === 0) {
+    return (
+      <p className="text-gray-500 italic">No delivery updates recorded yet.</p>
+    );
+  }
+
+  // Oldest first so the timeline reads top to bottom
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()
+  );
+
+  return (
+    <ol className="relative border-l-2 border-pink-200 ml-2 space-y-6">
+      {sorted.map((event, index) => {
+        const meta = DELIVERY_STATUS_META[event.status];
+        const isLatest = index === sorted.length - 1;
+        return (
+          <li key={event._id || index} className="ml-6">
+            <span
+              className={`absolute -left-[9px] w-4 h-4 rounded-full border-2 border-white ${isLatest ? "bg-pink-500" : "bg-pink-200"
+                }`}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`px-2 py-1 rounded-full text-xs font-medium ${meta?.className}`}
+              >
+                {meta?.label || event.status}
+              </span>
+              <span className="text-sm text-gray-500">
+                {new Date(event.at).toLocaleString("en-GB")}
+              </span>
+            </div>
+            {event.by && (
+              <p className="text-sm text-gray-600 mt-1">
+                By <StaffLink staff={event.by} staffList={staffList} />
+              </p>
+            )}
+            {event.note && <p className="mt-1">{event.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,52 @@
+"use client";
+
+import { matchDrugList } from "@/utils/formulary";
+import { AlertTriangle, Pill } from "lucide-react";
+
+interface DrugInteractionsProps {
+  drugs: string[];
+}
+
+// Lists the medicines the patient entered, highlighting formulary matches
+export const DrugInteractions = ({ drugs }: DrugInteractionsProps) => {
+  const entries = matchDrugList(drugs.filter((drug) => drug.trim()));
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-2">Other Medicines</p>
+      {entries.length === 0 ? (
+        <p className="text-gray-800 font-medium">None reported</p>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map(({ drug, matches }, index) => (
+            <li
+              key={`${drug}-${index}`}
+              className={`p-3 rounded-lg border ${matches.length > 0
+                ? "bg-orange-50 border-orange-300 text-orange-800"
+                : "bg-gray-50 border-gray-200 text-gray-800"
+                }`}
+            >
+              <p className="flex items-center gap-2 font-medium">
+                {matches.length > 0 ? (
+                  <AlertTriangle size={16} className="shrink-0" />
+                ) : (
+                  <Pill size={16} className="shrink-0 text-gray-400" />
+                )}
+                {drug}
+              </p>
+              {matches.map((match) => (
+                <p key={match.entry.id} className="text-sm mt-1 ml-6">
+                  <span className="font-semibold">{match.entry.name}</span>
+                  {match.distance > 0 && (
+                    <span className="italic"> (possible misspelling)</span>
+                  )}
+                  : {match.entry.advice}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
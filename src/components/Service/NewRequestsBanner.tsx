@@ -0,0 +1,40 @@
+"use client";
+
+import { BellRing, X } from "lucide-react";
+
+interface NewRequestsBannerProps {
+  count: number;
+  onShow: () => void;
+  onDismiss: () => void;
+}
+
+// Announces requests that arrived over the socket while staff were elsewhere
+export const NewRequestsBanner = ({
+  count,
+  onShow,
+  onDismiss,
+}: NewRequestsBannerProps) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3 p-4 mb-8 rounded-lg border border-pink-300 bg-pink-50 text-pink-800 shadow-sm">
+      <BellRing size={20} className="shrink-0 animate-pulse" />
+      <p className="font-semibold">
+        {count} new {count === 1 ? "request" : "requests"}
+      </p>
+      <button
+        onClick={onShow}
+        className="ml-auto px-4 py-1.5 bg-pink-500 text-white text-sm font-semibold rounded-md hover:bg-pink-600 transition"
+      >
+        Show
+      </button>
+      <button
+        onClick={onDismiss}
+        title="Dismiss"
+        className="p-1 text-pink-600 hover:text-pink-800"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+"use client";
+
+import Link from "next/link";
+import { usePermissions } from "@/hooks/usePermissions";
+import { User } from "@/types";
+import { resolveStaffReference } from "@/utils/staff";
+
+interface StaffLinkProps {
+  staff: User | string | undefined;
+  staffList?: User[];
+  fallback?: string;
+}
+
+// Links a staff reference to their profile, tolerating legacy name strings
+export const StaffLink = ({
+  staff,
+  staffList,
+  fallback = "Unknown",
+}: StaffLinkProps) => {
+  const { can } = usePermissions();
+  const ref = resolveStaffReference(staff, staffList);
+  if (!ref) return <span>{fallback}</span>;
+
+  const legacyHint = ref.isLegacy ? (
+    <span
+      className="ml-1 text-xs text-gray-400"
+      title="Recorded by name before staff were stored by ID"
+    >
+      (legacy)
+    </span>
+  ) : null;
+
+  // Only admins can open staff profiles; everyone else just sees the name
+  if (!ref.id || !can("staff:view")) {
+    return (
+      <span className="font-medium">
+        {ref.name}
+        {legacyHint}
+      </span>
+    );
+  }
+
+  return (
+    <span>
+      <Link
+        href={`/dashboard/staff/${ref.id}`}
+        className="font-medium text-pink-600 hover:underline"
+      >
+        {ref.name}
+      </Link>
+      {legacyHint}
+    </span>
+  );
+};
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ClipboardCheck,
+  FileText,
+  MessageCircle,
+  Truck,
+  UserCog,
+} from "lucide-react";
+import { TimelineEvent, TimelineEventKind } from "@/utils/patientTimeline";
+import { StaffLink } from "../Staff/StaffLink";
+
+interface PatientTimelineProps {
+  events: TimelineEvent[];
+  isLoading?: boolean;
+}
+
+const KIND_META: Record<
+  TimelineEventKind,
+  { label: string; icon: typeof FileText; className: string }
+> = {
+  request: {
+    label: "Requests",
+    icon: FileText,
+    className: "bg-pink-100 text-pink-600",
+  },
+  decision: {
+    label: "Decisions",
+    icon: ClipboardCheck,
+    className: "bg-green-100 text-green-600",
+  },
+  delivery: {
+    label: "Deliveries",
+    icon: Truck,
+    className: "bg-blue-100 text-blue-600",
+  },
+  message: {
+    label: "Messages",
+    icon: MessageCircle,
+    className: "bg-fuchsia-100 text-fuchsia-600",
+  },
+  account: {
+    label: "Account",
+    icon: UserCog,
+    className: "bg-gray-100 text-gray-600",
+  },
+};
+
+const KINDS = Object.keys(KIND_META) as TimelineEventKind[];
+
+export const PatientTimeline = ({ events, isLoading }: PatientTimelineProps) => {
+  const [kindFilter, setKindFilter] = useState<TimelineEventKind | "all">(
+    "all"
+  );
+
+  const visibleEvents =
+    kindFilter === "all"
+      ? events
+      : events.filter((event) => event.kind === kindFilter);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(["all", ...KINDS] as const).map((kind) => {
+          const count =
+            kind === "all"
+              ? events.length
+              : events.filter((event) => event.kind === kind).length;
+          return (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kind)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${kindFilter === kind
+                  ? "bg-fuchsia-400 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-fuchsia-200"
+                }`}
+            >
+              {kind === "all" ? "All" : KIND_META[kind].label} ({count})
+            </button>
+          );
+        })}
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading history...</p>
+      ) : visibleEvents.length === 0 ? (
+        <p className="text-gray-500 italic">No history recorded yet.</p>
+      ) : (
+        <ol className="relative border-l-2 border-pink-200 ml-4 space-y-6">
+          {visibleEvents.map((event) => {
+            const { icon: Icon, className } = KIND_META[event.kind];
+            return (
+              <li key={event.id} className="ml-8">
+                <span
+                  className={`absolute -left-[17px] flex items-center justify-center w-8 h-8 rounded-full ring-4 ring-white ${className}`}
+                >
+                  <Icon size={16} />
+                </span>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  {event.href ? (
+                    <Link
+                      href={event.href}
+                      className="font-semibold text-gray-800 hover:text-pink-600 hover:underline"
+                    >
+                      {event.title}
+                    </Link>
+                  ) : (
+                    <span className="font-semibold text-gray-800">
+                      {event.title}
+                    </span>
+                  )}
+                  <span className="text-sm text-gray-500">
+                    {new Date(event.at).toLocaleString("en-GB")}
+                  </span>
+                </div>
+                {event.actor && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    By <StaffLink staff={event.actor} />
+                  </p>
+                )}
+                {event.description && (
+                  <p className="mt-1 text-gray-700 whitespace-pre-line">
+                    {event.description}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
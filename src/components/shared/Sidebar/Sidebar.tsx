@@ -2,7 +2,7 @@
 
 import { MessageCircleHeartIcon, Pill } from "lucide-react";
 import Link from "next/link";
-import { usePathname, useRouter } from "next/navigation";
+import { usePathname } from "next/navigation";
 import toast from "react-hot-toast";
 import { CgProfile } from "react-icons/cg";
 import { FaTowerObservation } from "react-icons/fa6";
@@ -12,7 +12,9 @@ import { MdOutlineDashboard } from "react-icons/md";
 import { useSelector } from "react-redux";
 // Assuming RootState is accessible or defined within your project scope
 // For this example, we'll use 'any' or assume RootState is imported if this file was outside /components
-import { RootState } from "@/store"; // <--- Assuming your store export path
+import { RootState, useAppDispatch } from "@/store"; // <--- Assuming your store export path
+import { logoutUser } from "@/features/auth/authSlice";
+import { canAccessRoute } from "@/utils/permissions";
 import { RiAdminFill } from "react-icons/ri"; // Using RiAdminFill for an admin icon (you might need to install 'react-icons/ri')
 // If RiAdminFill is not available, you can use FiSettings, or import it from lucide-react if available there.
 
@@ -71,18 +73,17 @@ const NavItem = ({
 };
 
 const Sidebar = () => {
-  const router = useRouter();
+  const dispatch = useAppDispatch();
 
-  const userRole = useSelector((state: RootState) => {
-    console.log(state.auth);
-    return state.auth.user?.role;
-  });
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
 
-  const isAdmin = userRole === "admin";
+  // Only list sections the user's role can open
+  const canOpen = (href: string) => canAccessRoute(userRole, href);
 
   const handleSignOut = async () => {
     try {
-      router.push("/");
+      // PrivateRoute sends the signed-out user to the login page
+      await dispatch(logoutUser());
       toast.success("Signed out successfully");
     } catch (error) {
       toast.error("Failed to sign out");
@@ -113,8 +114,7 @@ const Sidebar = () => {
             </NavItem>
           </li>
 
-          {/* 4. Conditionally render the Admin Panel tab */}
-          {isAdmin && (
+          {canOpen("/dashboard/staff") && (
             <li>
               <NavItem href="/dashboard/staff" icon={RiAdminFill}>
                 Staffs
@@ -122,16 +122,20 @@ const Sidebar = () => {
             </li>
           )}
 
-          <li>
-            <NavItem href="/dashboard/user" icon={FiUser}>
-              User
-            </NavItem>
-          </li>
-          <li>
-            <NavItem href="/dashboard/our-service" icon={FaTowerObservation}>
-              User Service
-            </NavItem>
-          </li>
+          {canOpen("/dashboard/user") && (
+            <li>
+              <NavItem href="/dashboard/user" icon={FiUser}>
+                User
+              </NavItem>
+            </li>
+          )}
+          {canOpen("/dashboard/our-service") && (
+            <li>
+              <NavItem href="/dashboard/our-service" icon={FaTowerObservation}>
+                User Service
+              </NavItem>
+            </li>
+          )}
           <li>
             <NavItem href="/dashboard/my-profile" icon={CgProfile}>
               My Profile
@@ -142,11 +146,13 @@ const Sidebar = () => {
               Setting
             </NavItem>
           </li>
-          <li>
-            <NavItem href="/dashboard/messages" icon={MessageCircleHeartIcon}>
-              Message
-            </NavItem>
-          </li>
+          {canOpen("/dashboard/messages") && (
+            <li>
+              <NavItem href="/dashboard/messages" icon={MessageCircleHeartIcon}>
+                Message
+              </NavItem>
+            </li>
+          )}
         </ul>
       </nav>
 
@@ -0,0 +1,2 @@
+// COCP patients must have blood pressure and BMI measured at least this often
+export const BP_BMI_RECHECK_INTERVAL_MONTHS = 12;
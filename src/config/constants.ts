@@ -1,2 +1,15 @@
 // export const BASE_URL = "http://localhost:5000/api/v1";
 export const BASE_URL = "https://api.herpill.co.uk/api/v1";
+
+// Printed on dispensing labels and packing slips
+export const PHARMACY_DETAILS = {
+  name: "HerPill Online Pharmacy",
+  website: "www.herpill.co.uk",
+};
+
+// Socket.IO events the server emits when a POP/COCP request changes
+export const SERVICE_REQUEST_EVENTS = {
+  join: "joinServiceQueue",
+  created: "serviceRequestCreated",
+  updated: "serviceRequestUpdated",
+} as const;
@@ -0,0 +1,25 @@
+import { StatGranularity } from "@/types";
+
+export type DashboardRangePreset = "7d" | "4w" | "3m" | "12m" | "custom";
+
+// Quick ranges offered on the dashboard; `days` counts back from today
+export const DASHBOARD_RANGE_PRESETS: {
+  value: Exclude<DashboardRangePreset, "custom">;
+  label: string;
+  days: number;
+  granularity: StatGranularity;
+}[] = [
+  { value: "7d", label: "Last 7 days", days: 7, granularity: "day" },
+  { value: "4w", label: "Last 4 weeks", days: 28, granularity: "week" },
+  { value: "3m", label: "Last 3 months", days: 91, granularity: "week" },
+  { value: "12m", label: "Last 12 months", days: 365, granularity: "month" },
+];
+
+export const DEFAULT_DASHBOARD_RANGE_PRESET = "12m";
+
+export const GRANULARITY_OPTIONS: { value: StatGranularity; label: string }[] =
+  [
+    { value: "day", label: "Daily" },
+    { value: "week", label: "Weekly" },
+    { value: "month", label: "Monthly" },
+  ];
@@ -0,0 +1,42 @@
+import { DecisionStatus } from "@/types";
+
+export interface DecisionOption {
+  code: string;
+  label: string;
+}
+
+// Reason codes offered in the accept/decline form. Codes are stored on the
+// request, so only ever add new codes or relabel existing ones.
+export const DECISION_REASONS: Record<DecisionStatus, DecisionOption[]> = {
+  accept: [
+    { code: "meets-criteria", label: "Meets prescribing criteria" },
+    { code: "repeat-supply", label: "Routine repeat supply" },
+    { code: "accepted-with-advice", label: "Accepted with advice given" },
+  ],
+  decline: [
+    { code: "ukmec-contraindication", label: "UKMEC 3/4 contraindication" },
+    { code: "bp-bmi-out-of-range", label: "Blood pressure or BMI out of range" },
+    { code: "drug-interaction", label: "Interacting medication" },
+    { code: "pregnancy", label: "Possible pregnancy" },
+    { code: "incomplete-information", label: "Incomplete or unclear answers" },
+    { code: "needs-gp-review", label: "Requires GP or specialist review" },
+    { code: "other", label: "Other (see clinical note)" },
+  ],
+};
+
+export const FOLLOW_UP_ACTIONS: DecisionOption[] = [
+  { code: "none", label: "No follow-up needed" },
+  { code: "message-patient", label: "Message patient" },
+  { code: "refer-gp", label: "Refer to GP" },
+  { code: "request-bp-reading", label: "Request new BP/BMI reading" },
+  { code: "book-consultation", label: "Book consultation" },
+];
+
+const findLabel = (options: DecisionOption[], code?: string) =>
+  options.find((option) => option.code === code)?.label ?? code;
+
+export const getDecisionReasonLabel = (code?: string) =>
+  findLabel([...DECISION_REASONS.accept, ...DECISION_REASONS.decline], code);
+
+export const getFollowUpActionLabel = (code?: string) =>
+  findLabel(FOLLOW_UP_ACTIONS, code);
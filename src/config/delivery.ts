@@ -0,0 +1,101 @@
+import { DeliveryStatus } from "@/types";
+
+export interface DeliveryStatusMeta {
+  label: string;
+  // Tailwind classes for the status badge
+  className: string;
+}
+
+export const DELIVERY_STATUS_META: Record<DeliveryStatus, DeliveryStatusMeta> =
+{
+  [DeliveryStatus.Pending]: {
+    label: "Pending",
+    className: "bg-gray-100 text-gray-700",
+  },
+  [DeliveryStatus.Packed]: {
+    label: "Packed",
+    className: "bg-indigo-100 text-indigo-700",
+  },
+  [DeliveryStatus.Dispatched]: {
+    label: "Dispatched",
+    className: "bg-blue-100 text-blue-700",
+  },
+  [DeliveryStatus.OutForDelivery]: {
+    label: "Out for Delivery",
+    className: "bg-cyan-100 text-cyan-700",
+  },
+  [DeliveryStatus.Delivered]: {
+    label: "Delivered",
+    className: "bg-green-100 text-green-700",
+  },
+  [DeliveryStatus.Failed]: {
+    label: "Delivery Failed",
+    className: "bg-red-100 text-red-700",
+  },
+  [DeliveryStatus.Returned]: {
+    label: "Returned",
+    className: "bg-orange-100 text-orange-700",
+  },
+  [DeliveryStatus.Started]: {
+    label: "Dispatched",
+    className: "bg-blue-100 text-blue-700",
+  },
+  [DeliveryStatus.Done]: {
+    label: "Delivered",
+    className: "bg-green-100 text-green-700",
+  },
+};
+
+// Legacy statuses are read as their lifecycle equivalent
+const LEGACY_STATUS_MAP: Partial<Record<DeliveryStatus, DeliveryStatus>> = {
+  [DeliveryStatus.Started]: DeliveryStatus.Dispatched,
+  [DeliveryStatus.Done]: DeliveryStatus.Delivered,
+};
+
+export const normalizeDeliveryStatus = (
+  status?: DeliveryStatus
+): DeliveryStatus =>
+  status ? LEGACY_STATUS_MAP[status] ?? status : DeliveryStatus.Pending;
+
+// Allowed next states from each (normalized) delivery state
+export const DELIVERY_TRANSITIONS: Partial<
+  Record<DeliveryStatus, DeliveryStatus[]>
+> = {
+  [DeliveryStatus.Pending]: [DeliveryStatus.Packed],
+  [DeliveryStatus.Packed]: [DeliveryStatus.Dispatched],
+  [DeliveryStatus.Dispatched]: [
+    DeliveryStatus.OutForDelivery,
+    DeliveryStatus.Delivered,
+    DeliveryStatus.Failed,
+  ],
+  [DeliveryStatus.OutForDelivery]: [
+    DeliveryStatus.Delivered,
+    DeliveryStatus.Failed,
+  ],
+  [DeliveryStatus.Failed]: [DeliveryStatus.Dispatched, DeliveryStatus.Returned],
+};
+
+export const getNextDeliveryStatuses = (status?: DeliveryStatus) =>
+  DELIVERY_TRANSITIONS[normalizeDeliveryStatus(status)] ?? [];
+
+// Server-side filter groups, legacy values included
+export const OPEN_DELIVERY_STATUSES = [
+  DeliveryStatus.Pending,
+  DeliveryStatus.Packed,
+  DeliveryStatus.Dispatched,
+  DeliveryStatus.OutForDelivery,
+  DeliveryStatus.Started,
+];
+
+export const COMPLETED_DELIVERY_STATUSES = [
+  DeliveryStatus.Delivered,
+  DeliveryStatus.Done,
+];
+
+export const PROBLEM_DELIVERY_STATUSES = [
+  DeliveryStatus.Failed,
+  DeliveryStatus.Returned,
+];
+
+export const isDeliveryComplete = (status?: DeliveryStatus) =>
+  normalizeDeliveryStatus(status) === DeliveryStatus.Delivered;
@@ -0,0 +1,23 @@
+import { Gender } from "@/types";
+
+// Age band keys returned by the demographics endpoint, youngest first
+export const AGE_BANDS = [
+  { key: "under-16", label: "Under 16" },
+  { key: "16-19", label: "16–19" },
+  { key: "20-24", label: "20–24" },
+  { key: "25-34", label: "25–34" },
+  { key: "35-44", label: "35–44" },
+  { key: "45-49", label: "45–49" },
+  { key: "50+", label: "50+" },
+];
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  female: "Female",
+  male: "Male",
+  "non-binary": "Non-binary",
+  other: "Other",
+  "not-stated": "Prefer not to say",
+};
+
+// Label for groups where the patient left the field empty
+export const NOT_PROVIDED_LABEL = "Not provided";
@@ -0,0 +1,131 @@
+import { ServiceRequest, ServiceType, User } from "@/types";
+import {
+  COMMON_DETAIL_FIELDS,
+  ServiceDetailField,
+  getServiceDefinition,
+} from "./services";
+import { DELIVERY_STATUS_META, normalizeDeliveryStatus } from "./delivery";
+import {
+  getDecisionReasonLabel,
+  getFollowUpActionLabel,
+} from "./decisionReasons";
+import { CsvColumn, formatCsvValue } from "@/utils/export";
+import { getFullName, resolveStaffReference } from "@/utils/staff";
+
+const getPatient = (req: ServiceRequest): User | undefined =>
+  typeof req.userId === "object" ? req.userId : undefined;
+
+const getLatestDecision = (req: ServiceRequest) =>
+  [...(req.decisions || [])].sort(
+    (a, b) => new Date(b.decidedAt).getTime() - new Date(a.decidedAt).getTime()
+  )[0];
+
+const toColumn = (
+  field: ServiceDetailField<ServiceRequest>
+): CsvColumn<ServiceRequest> => ({
+  header: field.label,
+  value: (req) => field.value(req),
+});
+
+const REQUEST_COLUMNS: CsvColumn<ServiceRequest>[] = [
+  { header: "Request ID", value: (req) => req._id },
+  {
+    header: "Service",
+    value: (req) => getServiceDefinition(req.serviceType).label,
+  },
+  { header: "Submitted At", value: (req) => req.createdAt },
+  {
+    header: "Patient ID",
+    value: (req) => getPatient(req)?._id ?? (req.userId as string),
+  },
+  {
+    header: "Patient Name",
+    value: (req) => {
+      const patient = getPatient(req);
+      return patient ? getFullName(patient) : "";
+    },
+  },
+  { header: "Patient Email", value: (req) => getPatient(req)?.email },
+  { header: "Patient Phone", value: (req) => getPatient(req)?.phoneNumber },
+  { header: "NHS Number", value: (req) => getPatient(req)?.nhs },
+  { header: "Date of Birth", value: (req) => getPatient(req)?.dateOfBirth },
+  { header: "Request Status", value: (req) => req.status },
+  {
+    header: "Delivery Status",
+    value: (req) =>
+      DELIVERY_STATUS_META[normalizeDeliveryStatus(req.deliveryStatus)]
+        ?.label ?? req.deliveryStatus,
+  },
+  {
+    header: "Assigned To",
+    value: (req) => resolveStaffReference(req.assignedTo)?.name,
+  },
+  {
+    header: "Decision Reason",
+    value: (req) => {
+      const decision = getLatestDecision(req);
+      return decision?.reasonCode
+        ? getDecisionReasonLabel(decision.reasonCode)
+        : "";
+    },
+  },
+  { header: "Decision Note", value: (req) => getLatestDecision(req)?.note },
+  {
+    header: "Follow-up Action",
+    value: (req) => {
+      const decision = getLatestDecision(req);
+      return decision?.followUpAction
+        ? getFollowUpActionLabel(decision.followUpAction)
+        : "";
+    },
+  },
+  {
+    header: "Decided By",
+    value: (req) =>
+      resolveStaffReference(getLatestDecision(req)?.decidedBy)?.name,
+  },
+  { header: "Decided At", value: (req) => getLatestDecision(req)?.decidedAt },
+];
+
+// One column per answer for a single service; mixed exports fold the
+// service-specific answers into a single "Service Answers" column
+export const getServiceCsvColumns = (
+  service?: ServiceType
+): CsvColumn<ServiceRequest>[] => {
+  const common = [...REQUEST_COLUMNS, ...COMMON_DETAIL_FIELDS.map(toColumn)];
+
+  if (service) {
+    return [...common, ...getServiceDefinition(service).detailFields.map(toColumn)];
+  }
+
+  return [
+    ...common,
+    {
+      header: "Service Answers",
+      value: (req) =>
+        getServiceDefinition(req.serviceType)
+          .detailFields.map(
+            (field) => `${field.label}: ${formatCsvValue(field.value(req))}`
+          )
+          .join(" | "),
+    },
+  ];
+};
+
+export const USER_CSV_COLUMNS: CsvColumn<User>[] = [
+  { header: "User ID", value: (user) => user._id },
+  { header: "First Name", value: (user) => user.firstName },
+  { header: "Surname", value: (user) => user.surname },
+  { header: "Email", value: (user) => user.email },
+  { header: "Phone Number", value: (user) => user.phoneNumber },
+  { header: "Date of Birth", value: (user) => user.dateOfBirth },
+  { header: "Gender", value: (user) => user.gender },
+  { header: "Sex", value: (user) => user.sex },
+  { header: "Postcode", value: (user) => user.postcode },
+  { header: "NHS Number", value: (user) => user.nhs },
+  { header: "Contraception", value: (user) => user.contraception },
+  { header: "Role", value: (user) => user.role },
+  { header: "Verified", value: (user) => user.verified },
+  { header: "Blocked", value: (user) => user.blocked },
+  { header: "Joined At", value: (user) => user.createdAt },
+];
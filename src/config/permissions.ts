@@ -0,0 +1,72 @@
+import { UserRole } from "@/types";
+
+// Things a role may do in the dashboard. Add a capability here before
+// guarding a new route or action with it.
+export type Capability =
+  | "dashboard:view"
+  | "analytics:view"
+  | "users:view"
+  | "users:block"
+  | "users:export"
+  | "staff:view"
+  | "staff:create"
+  | "staff:delete"
+  | "staff:reset-2fa"
+  | "requests:view"
+  | "requests:decide"
+  | "requests:assign"
+  | "requests:dispatch"
+  | "requests:delete"
+  | "requests:export"
+  | "messages:use";
+
+const STAFF_CAPABILITIES: Capability[] = [
+  "dashboard:view",
+  "analytics:view",
+  "users:view",
+  "users:block",
+  "users:export",
+  "requests:view",
+  "requests:decide",
+  "requests:assign",
+  "requests:dispatch",
+  "requests:delete",
+  "requests:export",
+  "messages:use",
+];
+
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  admin: [
+    ...STAFF_CAPABILITIES,
+    "staff:view",
+    "staff:create",
+    "staff:delete",
+    "staff:reset-2fa",
+  ],
+  staff: STAFF_CAPABILITIES,
+  // Clinical review only: no account management or dispatch
+  pharmacist: [
+    "dashboard:view",
+    "users:view",
+    "requests:view",
+    "requests:decide",
+    "requests:assign",
+    "requests:export",
+    "messages:use",
+  ],
+  // Packing and delivery only
+  dispatcher: ["dashboard:view", "requests:view", "requests:dispatch"],
+  // Patients use the mobile app and never get into the dashboard
+  user: [],
+};
+
+// Capability needed to open each dashboard section; the longest matching
+// prefix wins, so `/dashboard` covers pages without their own entry
+export const ROUTE_CAPABILITIES: { prefix: string; capability: Capability }[] =
+  [
+    { prefix: "/dashboard/staff", capability: "staff:view" },
+    { prefix: "/dashboard/user", capability: "users:view" },
+    { prefix: "/dashboard/our-service", capability: "requests:view" },
+    { prefix: "/dashboard/messages", capability: "messages:use" },
+    { prefix: "/dashboard", capability: "dashboard:view" },
+  ];
@@ -0,0 +1,19 @@
+// Supply lengths offered when accepting a request, in months
+export const SUPPLY_MONTH_OPTIONS = [1, 3, 6, 12];
+
+export const DEFAULT_SUPPLY_MONTHS = 3;
+
+// Patients show as "due to reorder" this many days before supply runs out
+export const REORDER_WINDOW_DAYS = 14;
+
+export type ReorderStatus = "ok" | "due" | "overdue";
+
+export const REORDER_STATUS_META: Record<
+  ReorderStatus,
+  { label: string; className: string }
+> = {
+  ok: { label: "In supply", className: "bg-green-100 text-green-700" },
+  due: { label: "Due to reorder", className: "bg-yellow-100 text-yellow-700" },
+  // Supply has lapsed, so the next request needs a fresh clinical review
+  overdue: { label: "Due for review", className: "bg-red-100 text-red-700" },
+};
@@ -0,0 +1,129 @@
+import {
+  ClinicalFlag,
+  ServiceRequest,
+  ServiceRequestOf,
+  ServiceType,
+} from "@/types";
+import { evaluateCocp } from "@/utils/clinicalChecks";
+
+// RTK Query tag type for each service, e.g. "pop" -> "Pops"
+export type ServiceTagType = `${Capitalize<ServiceType>}s`;
+
+export type DetailValue = string | string[] | boolean | number | null;
+
+export interface ServiceDetailField<T extends ServiceRequest> {
+  label: string;
+  value(request: T): DetailValue | undefined;
+}
+
+// What goes on the dispensing label and packing slip once a request is accepted
+export interface ServiceDispensing<T extends ServiceRequest> {
+  product(request: T): string;
+  // Tablets in one pack
+  packSize: number;
+  directions: string;
+}
+
+export interface ServiceDefinition<T extends ServiceRequest = ServiceRequest> {
+  type: T["serviceType"];
+  // Short label used in tabs and headings, e.g. "POP"
+  label: string;
+  // Full service name shown on the service cards
+  title: string;
+  // Base path of the REST resource (list, `/:id`, `/update/:id`, `/delete/:id`)
+  endpoint: string;
+  tagType: ServiceTagType;
+  // Service-specific fields rendered on the request details page
+  detailFields: ServiceDetailField<T>[];
+  dispensing: ServiceDispensing<T>;
+  // Optional decision-support rules shown next to the Accept/Decline actions
+  evaluate?(request: T): ClinicalFlag[];
+  // Other medicines the patient reports, checked against the formulary
+  medicines?(request: T): string[];
+}
+
+// Questionnaire answers every service asks, shown before the service-specific ones
+export const COMMON_DETAIL_FIELDS: ServiceDetailField<ServiceRequest>[] = [
+  { label: "Consent Given", value: (req) => req.consent },
+  { label: "Consent to Share with GP", value: (req) => req.shareConsent },
+  {
+    label: "Wants to Speak with Specialist",
+    value: (req) => req.speakWithSpecialist,
+  },
+  { label: "Medical History", value: (req) => req.medicalHistory },
+  { label: "Medical Details", value: (req) => req.medicalDetails },
+  { label: "Currently Pregnant", value: (req) => req.isPregnant },
+  { label: "Exclusions Noted", value: (req) => req.exclusions },
+  { label: "Appointment Needed", value: (req) => req.needAppointment },
+];
+
+type ServiceRegistry = {
+  [K in ServiceType]: ServiceDefinition<ServiceRequestOf<K>>;
+};
+
+// Adding a new pill service means extending `ServiceType` and adding an entry here
+export const SERVICE_REGISTRY: ServiceRegistry = {
+  pop: {
+    type: "pop",
+    label: "POP",
+    title: "Progesterone Only Pill (POP)",
+    endpoint: "pop",
+    tagType: "Pops",
+    detailFields: [{ label: "POP Choice", value: (req) => req.popOptions }],
+    dispensing: {
+      product: (req) => req.popOptions,
+      packSize: 28,
+      directions:
+        "Take ONE tablet at the same time every day, continuously without a break.",
+    },
+  },
+  cocp: {
+    type: "cocp",
+    label: "COCP",
+    title: "Combined Contraceptive Pill (COCP)",
+    endpoint: "cocp",
+    tagType: "Cocps",
+    detailFields: [
+      { label: "COCP Choice", value: (req) => req.cocp },
+      { label: "Other Drugs", value: (req) => req.drugs },
+      {
+        label: "Blood Pressure Status",
+        value: (req) => req.bloodPreasureStatus,
+      },
+      { label: "BMI", value: (req) => req.bmi },
+      { label: "Systolic BP", value: (req) => req.systolic },
+      { label: "Diastolic BP", value: (req) => req.diastolic },
+      {
+        label: "Weight Recently Checked",
+        value: (req) => req.weightChecked,
+      },
+      { label: "Additional Comments", value: (req) => req.comment },
+    ],
+    dispensing: {
+      product: (req) => req.cocp,
+      packSize: 21,
+      directions:
+        "Take ONE tablet daily for 21 days, then 7 tablet-free days before starting the next pack.",
+    },
+    evaluate: evaluateCocp,
+    medicines: (req) => req.drugs || [],
+  },
+};
+
+export const SERVICE_TYPES = Object.keys(SERVICE_REGISTRY) as ServiceType[];
+
+export const SERVICE_TAG_TYPES = SERVICE_TYPES.map(
+  (type) => SERVICE_REGISTRY[type].tagType
+);
+
+export const isServiceType = (value: unknown): value is ServiceType =>
+  typeof value === "string" && Object.hasOwn(SERVICE_REGISTRY, value);
+
+export const getServiceDefinition = (type: ServiceType): ServiceDefinition =>
+  SERVICE_REGISTRY[type];
+
+// Clinical flags for a request, empty for services without decision support
+export const evaluateServiceRequest = (
+  request: ServiceRequest
+): ClinicalFlag[] =>
+  getServiceDefinition(request.serviceType).evaluate?.(request) ?? [];
@@ -0,0 +1,31 @@
+import { UserRole } from "@/types";
+
+// httpOnly cookie mirroring the redux session so middleware can guard
+// dashboard routes before any client code runs. It holds the role the API
+// reported for the logged-in user and an expiry, signed with SESSION_SECRET;
+// the API still authorises every request.
+export const SESSION_COOKIE = "herpill_session";
+
+// Sessions last this long without a refresh before middleware asks for a
+// fresh login
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+export const LOGIN_PATH = "/login";
+export const RETURN_TO_PARAM = "returnTo";
+
+// Access tokens are refreshed this long before they expire, so requests never
+// go out with a token that lapses in flight
+export const TOKEN_REFRESH_LEEWAY_MS = 60 * 1000;
+
+// Inactivity before the dashboard locks, per role. Roles that see more
+// clinical detail lock sooner; dispatch stations stay open longer.
+export const IDLE_TIMEOUT_MS: Record<UserRole, number> = {
+  admin: 10 * 60 * 1000,
+  staff: 15 * 60 * 1000,
+  pharmacist: 10 * 60 * 1000,
+  dispatcher: 30 * 60 * 1000,
+  user: 5 * 60 * 1000,
+};
+
+// How long the countdown warning shows before the lock screen
+export const IDLE_WARNING_MS = 60 * 1000;
@@ -0,0 +1,27 @@
+import { UserRole, UserSortField, UserStatusFilter } from "@/types";
+import { ROLE_CAPABILITIES } from "./permissions";
+
+// Account status filters on the user list; the dashboard stat cards link here
+export const USER_STATUS_FILTERS: { value: UserStatusFilter; label: string }[] =
+  [
+    { value: "active", label: "Active" },
+    { value: "incomplete", label: "Incomplete profile" },
+    { value: "blocked", label: "Blocked" },
+  ];
+
+// Roles offered in the staff list filter: every role that can use the
+// dashboard, so new staff roles show up without another edit here
+export const STAFF_ROLE_FILTERS: { value: UserRole; label: string }[] = (
+  Object.keys(ROLE_CAPABILITIES) as UserRole[]
+)
+  .filter((role) => ROLE_CAPABILITIES[role].includes("dashboard:view"))
+  .map((role) => ({
+    value: role,
+    label: role.charAt(0).toUpperCase() + role.slice(1),
+  }));
+
+export const USER_SORT_FIELDS: UserSortField[] = [
+  "firstName",
+  "email",
+  "createdAt",
+];
@@ -4,12 +4,14 @@ import {
   createContext,
   useContext,
   useEffect,
+  useRef,
   useState,
   ReactNode,
 } from "react";
 import { useSelector } from "react-redux";
-import { RootState } from "@/store"; // Adjust import path
+import { RootState, useAppDispatch } from "@/store"; // Adjust import path
 import { io, Socket } from "socket.io-client";
+import { refreshAccessToken } from "@/api/api";
 
 interface SocketContextType {
   socket: Socket | null;
@@ -31,19 +33,28 @@ interface SocketProviderProps {
 }
 
 export const SocketProvider = ({ children }: SocketProviderProps) => {
+  const dispatch = useAppDispatch();
   const accessToken = useSelector((state: RootState) => state.auth.accessToken);
+  const userId = useSelector((state: RootState) => state.auth.user?._id);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // Read at every (re)connect so a refreshed token is used without tearing
+  // the socket down and losing its listeners
+  const tokenRef = useRef(accessToken);
+  tokenRef.current = accessToken;
 
   useEffect(() => {
-    if (accessToken) {
+    if (userId) {
       const newSocket = io("https://api.herpill.co.uk", {
-        auth: {
-          token: accessToken,
-        },
+        auth: (cb) => cb({ token: tokenRef.current }),
       });
 
+      // At most one refresh between successful connects, so a token the
+      // server keeps refusing can't loop
+      let refreshTried = false;
+
       newSocket.on("connect", () => {
+        refreshTried = false;
         console.log("Socket connected:", newSocket.id);
         setIsConnected(true);
       });
@@ -53,13 +64,29 @@ export const SocketProvider = ({ children }: SocketProviderProps) => {
         setIsConnected(false);
       });
 
+      // A rejected handshake (usually an expired token) stops socket.io
+      // retrying; the effect below reconnects once the refresh lands
+      newSocket.on("connect_error", (err) => {
+        if (newSocket.active || refreshTried) return;
+        console.error("Socket connection rejected:", err.message);
+        refreshTried = true;
+        dispatch(refreshAccessToken);
+      });
+
       setSocket(newSocket);
 
       return () => {
         newSocket.disconnect();
+        // Stops the reconnect effect below reviving a socket from a past login
+        setSocket(null);
       };
     }
-  }, [accessToken]);
+  }, [userId, dispatch]);
+
+  // The server drops sockets whose token lapses; rejoin once a new one arrives
+  useEffect(() => {
+    if (socket && accessToken && !socket.connected) socket.connect();
+  }, [socket, accessToken]);
 
   return (
     <SocketContext.Provider value={{ socket, isConnected }}>
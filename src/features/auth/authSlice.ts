@@ -3,6 +3,7 @@ import { LoginSuccessData, User } from "@/types";
 import { AppDispatch } from "@/store";
 import { authApi } from "@/api/authApi";
 import { baseApi } from "@/api/api";
+import { clearSessionCookie } from "@/utils/session";
 
 interface AuthState {
   user: User | null;
@@ -10,6 +11,8 @@ interface AuthState {
   refreshToken: string | null;
   isAuthenticated: boolean;
   twoFactorUserId: string | null;
+  // Set after inactivity; persisted so a reload can't skip the lock screen
+  isLocked: boolean;
 }
 
 const initialState: AuthState = {
@@ -18,6 +21,7 @@ const initialState: AuthState = {
   refreshToken: null,
   isAuthenticated: false,
   twoFactorUserId: null,
+  isLocked: false,
 };
 
 const authSlice = createSlice({
@@ -45,6 +49,14 @@ const authSlice = createSlice({
       state.refreshToken = null;
       state.isAuthenticated = false;
       state.twoFactorUserId = null;
+      state.isLocked = false;
+    },
+    // Token refreshes go through setCredentials, so unlocking stays explicit
+    lockSession: (state) => {
+      state.isLocked = true;
+    },
+    unlockSession: (state) => {
+      state.isLocked = false;
     },
   },
   extraReducers: (builder) => {
@@ -71,10 +83,13 @@ export const {
   setTwoFactorUserId,
   clearTwoFactorUserId,
   logout,
+  lockSession,
+  unlockSession,
 } = authSlice.actions;
 export default authSlice.reducer;
 
-export const logoutUser = () => (dispatch: AppDispatch) => {
+export const logoutUser = () => async (dispatch: AppDispatch) => {
+  await clearSessionCookie();
   dispatch(logout());
   dispatch(baseApi.util.resetApiState());
 };
@@ -0,0 +1,40 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { ServiceType } from "@/types";
+
+interface NewServiceRequest {
+  id: string;
+  service: ServiceType;
+}
+
+interface ServiceQueueState {
+  // Requests created over the socket since staff last looked at the queue
+  newRequests: NewServiceRequest[];
+  soundEnabled: boolean;
+}
+
+const initialState: ServiceQueueState = {
+  newRequests: [],
+  soundEnabled: false,
+};
+
+const serviceQueueSlice = createSlice({
+  name: "serviceQueue",
+  initialState,
+  reducers: {
+    addNewRequest: (state, action: PayloadAction<NewServiceRequest>) => {
+      if (!state.newRequests.some((req) => req.id === action.payload.id)) {
+        state.newRequests.push(action.payload);
+      }
+    },
+    clearNewRequests: (state) => {
+      state.newRequests = [];
+    },
+    setSoundEnabled: (state, action: PayloadAction<boolean>) => {
+      state.soundEnabled = action.payload;
+    },
+  },
+});
+
+export const { addNewRequest, clearNewRequests, setSoundEnabled } =
+  serviceQueueSlice.actions;
+export default serviceQueueSlice.reducer;
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "wheel",
+  "touchstart",
+  "scroll",
+] as const;
+
+interface IdleTimerOptions {
+  timeoutMs: number;
+  warningMs: number;
+  enabled: boolean;
+  onIdle: () => void;
+}
+
+// Tracks user activity and calls `onIdle` after `timeoutMs` without any.
+// `warningRemainingMs` counts down during the final `warningMs`, else null.
+export const useIdleTimer = ({
+  timeoutMs,
+  warningMs,
+  enabled,
+  onIdle,
+}: IdleTimerOptions) => {
+  const lastActivityRef = useRef(Date.now());
+  const onIdleRef = useRef(onIdle);
+  const [warningRemainingMs, setWarningRemainingMs] = useState<number | null>(
+    null
+  );
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  const reset = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setWarningRemainingMs(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setWarningRemainingMs(null);
+      return;
+    }
+    lastActivityRef.current = Date.now();
+
+    // Only a timestamp is written per event, so mousemove stays cheap
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+
+    // Measured against the clock, not tick counts, because background tabs
+    // throttle intervals
+    const interval = setInterval(() => {
+      const remaining = lastActivityRef.current + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        setWarningRemainingMs(null);
+        onIdleRef.current();
+      } else {
+        setWarningRemainingMs(remaining <= warningMs ? remaining : null);
+      }
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  return { warningRemainingMs, reset };
+};
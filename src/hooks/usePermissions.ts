@@ -0,0 +1,13 @@
+import { useSelector } from "react-redux";
+import { Capability } from "@/config/permissions";
+import { RootState } from "@/store";
+import { can as roleCan } from "@/utils/permissions";
+
+// Capability checks for the logged-in user, e.g. `can("staff:create")`
+export const usePermissions = () => {
+  const role = useSelector((state: RootState) => state.auth.user?.role);
+  return {
+    role,
+    can: (capability: Capability) => roleCan(role, capability),
+  };
+};
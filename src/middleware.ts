@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LOGIN_PATH, RETURN_TO_PARAM, SESSION_COOKIE } from "@/config/session";
+import { can, canAccessRoute } from "@/utils/permissions";
+import { verifySessionCookie } from "@/utils/sessionCookie";
+
+// Redirects before the dashboard shell renders: signed-out visitors go to the
+// login page with a return-to URL, roles lacking a section go back to the
+// dashboard home. PrivateRoute repeats these checks on the client.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  // Forged, edited or expired cookies fail verification and read as signed out
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  const role = await verifySessionCookie(cookie);
+
+  if (!role || !can(role, "dashboard:view")) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set(RETURN_TO_PARAM, `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    if (cookie) response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  if (!canAccessRoute(role, pathname)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*"],
+};
@@ -14,6 +14,7 @@ import storage from "redux-persist/lib/storage"; // defaults to localStorage for
 
 import { baseApi } from "../api/api";
 import authReducer from "../features/auth/authSlice";
+import serviceQueueReducer from "../features/serviceQueue/serviceQueueSlice";
 
 // Configuration for redux-persist
 const persistConfig = {
@@ -22,10 +23,18 @@ const persistConfig = {
   whitelist: ["auth"], // IMPORTANT: Only the 'auth' slice will be persisted
 };
 
+// Only the sound preference survives a reload; new-request counts are per session
+const serviceQueuePersistConfig = {
+  key: "serviceQueue",
+  storage,
+  whitelist: ["soundEnabled"],
+};
+
 // Combine all reducers into a single root reducer
 const rootReducer = combineReducers({
   [baseApi.reducerPath]: baseApi.reducer,
   auth: authReducer,
+  serviceQueue: persistReducer(serviceQueuePersistConfig, serviceQueueReducer),
   // Add other reducers here if you have them
 });
 
@@ -29,7 +29,8 @@ interface ErrorResponse {
 
 export type ApiResponse<T> = SuccessResponse<T> | ErrorResponse;
 
-export type UserRole = "admin" | "user" | "staff";
+// "user" is a patient; every other role is a member of staff
+export type UserRole = "admin" | "user" | "staff" | "pharmacist" | "dispatcher";
 export type Gender = "male" | "female" | "not-stated" | "non-binary" | "other";
 export type Sex = "male" | "female";
 
@@ -49,6 +50,8 @@ export interface User {
   nhs?: string;
   contraception?: string;
   blocked: boolean;
+  // Whether an authenticator app is enrolled; staff accounts require one
+  twoFactorEnabled?: boolean;
   deviceTokens?: string[];
   createdAt?: string;
   updatedAt?: string;
@@ -87,6 +90,23 @@ export interface VerifyTwoFactorRequest {
   token: string;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enrolledAt?: string;
+  // Unused one-time recovery codes left
+  recoveryCodesRemaining: number;
+}
+
+// A pending authenticator enrolment; it replaces the current one once a code
+// from the new authenticator is confirmed
+export interface TwoFactorEnrolmentData {
+  qrCodeImageUrl: string;
+}
+
+export interface RecoveryCodesData {
+  codes: string[];
+}
+
 export interface DashboardStats {
   totalUsers: number;
   activeUsers: number;
@@ -95,22 +115,92 @@ export interface DashboardStats {
   newRequests: number;
 }
 
+// One bucket of the user sign-up chart; buckets follow the requested granularity
 export interface MonthlyUserStat {
   _id: number;
   name: string;
   users: number;
 }
 
+export type StatGranularity = "day" | "week" | "month";
+
+// Period the dashboard stats and chart cover; dates are YYYY-MM-DD, inclusive
+export interface DashboardQueryParams {
+  from: string;
+  to: string;
+  granularity: StatGranularity;
+}
+
+// Open service requests assigned to one staff member
+export interface StaffWorkload {
+  staff: User;
+  pending: number;
+  awaitingDelivery: number;
+}
+
 export interface DashboardResponseData {
   stats: DashboardStats;
   monthlyStat: MonthlyUserStat[];
   users: User[];
+  staffWorkload?: StaffWorkload[];
+}
+
+// One group from the demographics aggregation; `_id` is null for missing values
+export interface DemographicCount {
+  _id: string | null;
+  count: number;
+}
+
+// Patient-base breakdowns aggregated server-side (staff and admins excluded)
+export interface DemographicsResponseData {
+  totalPatients: number;
+  ageBands: DemographicCount[];
+  gender: DemographicCount[];
+  // Outward postcode area, e.g. "M" or "SW"
+  postcodeAreas: DemographicCount[];
+  contraception: DemographicCount[];
 }
 
 export type ProfileResponseData = User;
 
 export type AllUsersResponseData = PaginatedResponse<User>;
 
+export type UserStatusFilter = "active" | "incomplete" | "blocked";
+
+export type UserSortField = "firstName" | "email" | "createdAt";
+
+// Query parameters accepted by the user list endpoint
+export interface UserQueryParams {
+  page?: number;
+  limit?: number;
+  isStaff?: boolean;
+  // Matches name, email, phone number or NHS number
+  search?: string;
+  status?: UserStatusFilter;
+  verified?: boolean;
+  role?: UserRole;
+  sortBy?: UserSortField;
+  sortOrder?: SortOrder;
+}
+
+export type AccountEventType =
+  | "registered"
+  | "verified"
+  | "blocked"
+  | "unblocked"
+  | "profile_updated";
+
+// Audit entry for changes to a user's account
+export interface AccountEvent {
+  _id: string;
+  type: AccountEventType;
+  at: string;
+  // Staff member who made the change; absent when the patient did it
+  by?: User | string;
+  // Profile fields that changed, for `profile_updated`
+  fields?: string[];
+}
+
 export type UpdateAvatarRequest = {
   avatar: File;
 };
@@ -155,11 +245,60 @@ export type MessagesResponseData = PaginatedResponse<Message>;
 export type ServiceStatus = "pending" | "accept" | "decline";
 export enum DeliveryStatus {
   Pending = "pending",
+  Packed = "packed",
+  Dispatched = "dispatched",
+  OutForDelivery = "out_for_delivery",
+  Delivered = "delivered",
+  Failed = "failed",
+  Returned = "returned",
+  // Legacy values written before the full lifecycle existed
   Started = "started",
   Done = "done",
 }
 
-export interface Cocp {
+// One transition in a request's delivery lifecycle
+export interface DeliveryEvent {
+  _id?: string;
+  status: DeliveryStatus;
+  at: string;
+  by?: User | string;
+  note?: string;
+}
+
+// What the dashboard sends when moving a request to its next delivery state
+export interface DeliveryUpdateInput {
+  deliveryStatus: DeliveryStatus;
+  // Staff _id of whoever delivered the order
+  deliveredBy?: string;
+  courier?: string;
+  trackingNumber?: string;
+  note?: string;
+}
+
+export type ServiceType = "pop" | "cocp";
+export type DecisionStatus = "accept" | "decline";
+
+// What a pharmacist submits when accepting or declining a request
+export interface ServiceDecisionInput {
+  status: DecisionStatus;
+  reasonCode?: string;
+  note?: string;
+  followUpAction?: string;
+  // Months of supply issued, recorded when accepting
+  suppliedMonths?: number;
+}
+
+export type ReminderChannel = "push" | "chat";
+
+// A recorded accept/decline decision, kept as an audit trail on the request
+export interface ServiceDecision extends ServiceDecisionInput {
+  _id?: string;
+  decidedBy?: User | string;
+  decidedAt: string;
+}
+
+// Fields every pill service request shares, regardless of the service
+export interface ServiceRequestBase {
   _id: string;
   userId: User | string;
 
@@ -170,12 +309,32 @@ export interface Cocp {
   medicalDetails: string;
   isPregnant: boolean;
 
-  drugs: string[];
-  cocp: string;
-
   exclusions: string;
   needAppointment: boolean;
 
+  deliveryStatus: DeliveryStatus;
+  // Staff _id, populated into a User on read; older records hold a display name
+  deliveredBy?: User | string;
+  courier?: string;
+  trackingNumber?: string;
+  deliveryEvents?: DeliveryEvent[];
+  // Pharmacist/staff responsible for triaging the request
+  assignedTo?: User | string;
+  // Months of supply issued on acceptance; drives the reorder due date
+  suppliedMonths?: number;
+  reminderSentAt?: string;
+  status: ServiceStatus;
+  decisions?: ServiceDecision[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Cocp extends ServiceRequestBase {
+  serviceType: "cocp";
+
+  drugs: string[];
+  cocp: string;
+
   bloodPreasureStatus: string;
 
   bmi: number;
@@ -184,36 +343,77 @@ export interface Cocp {
 
   weightChecked: boolean;
   comment: string;
+}
 
-  deliveryStatus: DeliveryStatus;
-  deliveredBy?: string;
-  status: ServiceStatus;
-  createdAt?: string;
-  updatedAt?: string;
+export interface Pop extends ServiceRequestBase {
+  serviceType: "pop";
+
+  popOptions: string;
 }
 
-export interface Pop {
-  _id: string;
-  userId: User | string;
+// Discriminated on `serviceType`, which the API layer stamps onto each record
+export type ServiceRequest = Pop | Cocp;
+export type ServiceRequestOf<T extends ServiceType> = Extract<
+  ServiceRequest,
+  { serviceType: T }
+>;
+
+// Payload of the service request socket events
+export interface ServiceRequestSocketEvent {
+  service: ServiceType;
+  request: ServiceRequest;
+}
 
-  consent: boolean;
-  shareConsent: boolean;
-  speakWithSpecialist: boolean;
-  medicalHistory: string[];
-  medicalDetails: string;
-  isPregnant: boolean;
+// UK Medical Eligibility Criteria category: 4 = unacceptable risk,
+// 3 = risks usually outweigh benefits, 2 = benefits generally outweigh risks
+export type UkmecCategory = 2 | 3 | 4;
 
-  popOptions: string;
+export interface ClinicalFlag {
+  id: string;
+  category: UkmecCategory;
+  title: string;
+  reason: string;
+}
 
-  exclusions: string;
-  needAppointment: boolean;
+// Entry in the bundled formulary (src/data/formulary.json)
+export type FormularyGroup = "enzyme-inducer" | "interacting";
 
-  deliveryStatus: DeliveryStatus;
-  deliveredBy?: string;
-  status: ServiceStatus;
-  createdAt?: string;
-  updatedAt?: string;
+export interface FormularyEntry {
+  id: string;
+  name: string;
+  // Brand names and alternative spellings matched alongside `name`
+  aliases: string[];
+  group: FormularyGroup;
+  category: UkmecCategory;
+  advice: string;
+}
+
+// A drug name entered by the patient matched to a formulary entry.
+// `distance` is the edit distance of a fuzzy match, 0 when exact.
+export interface DrugMatch {
+  input: string;
+  entry: FormularyEntry;
+  matchedTerm: string;
+  distance: number;
+}
+
+export type SortOrder = "asc" | "desc";
+export type ServiceSortField = "createdAt" | "updatedAt";
+
+// Query parameters accepted by the POP/COCP list endpoints. Every filter is
+// applied server-side so pagination stays accurate for large queues.
+export interface ServiceQueryParams {
+  page?: number;
+  limit?: number;
+  userId?: string;
+  assignedTo?: string;
+  status?: ServiceStatus;
+  deliveryStatus?: DeliveryStatus[];
+  search?: string;
+  from?: string;
+  to?: string;
+  sortBy?: ServiceSortField;
+  sortOrder?: SortOrder;
 }
 
-export type AllPopsResponseData = PaginatedResponse<Pop>;
-export type AllCocpsResponseData = PaginatedResponse<Cocp>;
+export type ServiceRequestsResponseData = PaginatedResponse<ServiceRequest>;
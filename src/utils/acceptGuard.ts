@@ -0,0 +1,52 @@
+import Swal from "sweetalert2";
+import { evaluateServiceRequest } from "@/config/services";
+import { ServiceRequest } from "@/types";
+import { getRecheckBlockReason } from "./cocpReview";
+
+export const CONTRAINDICATION_SKIP_REASON =
+  "UKMEC 4 contraindication – review individually.";
+
+export const hasContraindication = (request: ServiceRequest) =>
+  evaluateServiceRequest(request).some((flag) => flag.category === 4);
+
+// Why a request can't join a bulk accept: an overdue recheck, or UKMEC 4
+// flags that need the per-request override below
+export const getBulkAcceptSkipReason = (
+  request: ServiceRequest,
+  history: ServiceRequest[] = []
+) =>
+  getRecheckBlockReason(request, history) ??
+  (hasContraindication(request) ? CONTRAINDICATION_SKIP_REASON : null);
+
+// Checks run before the accept form opens for a single request: an overdue
+// recheck blocks, UKMEC 4 flags need an explicit override. Pass the patient's
+// other requests so older readings count towards the recheck.
+export const confirmAccept = async (
+  request: ServiceRequest,
+  history: ServiceRequest[] = []
+) => {
+  const recheckBlockReason = getRecheckBlockReason(request, history);
+  if (recheckBlockReason) {
+    Swal.fire({
+      title: "Recheck required",
+      text: recheckBlockReason,
+      icon: "error",
+    });
+    return false;
+  }
+
+  if (hasContraindication(request)) {
+    const result = await Swal.fire({
+      title: "Contraindication flagged",
+      text: "This request has UKMEC 4 flags. Accept it anyway?",
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Yes, accept",
+    });
+    return result.isConfirmed;
+  }
+
+  return true;
+};
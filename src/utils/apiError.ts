@@ -0,0 +1,8 @@
+// Extracts the server's message from an RTK Query error, falling back when absent
+export const getApiErrorMessage = (err: unknown, fallback: string): string => {
+  if (typeof err === "object" && err !== null && "data" in err) {
+    const data = (err as { data?: { message?: unknown } }).data;
+    if (typeof data?.message === "string" && data.message) return data.message;
+  }
+  return fallback;
+};
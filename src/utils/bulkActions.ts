@@ -0,0 +1,63 @@
+import { getApiErrorMessage } from "./apiError";
+
+export type BulkOutcome = "success" | "failed" | "skipped";
+
+export interface BulkResult {
+  id: string;
+  label: string;
+  outcome: BulkOutcome;
+  message?: string;
+}
+
+export interface BulkActionOptions<T> {
+  getId: (item: T) => string;
+  getLabel: (item: T) => string;
+  // Returns a reason when the item cannot take part in this action
+  getSkipReason?: (item: T) => string | null;
+  run: (item: T) => Promise<unknown>;
+}
+
+// Small batches keep the API (and the tag refetches they trigger) manageable
+const BATCH_SIZE = 5;
+
+// Runs `run` for every item and reports the outcome of each one
+export const runBulkAction = async <T>(
+  items: T[],
+  { getId, getLabel, getSkipReason, run }: BulkActionOptions<T>
+): Promise<BulkResult[]> => {
+  const results: BulkResult[] = [];
+  const runnable: T[] = [];
+
+  items.forEach((item) => {
+    const skipReason = getSkipReason?.(item);
+    if (skipReason) {
+      results.push({
+        id: getId(item),
+        label: getLabel(item),
+        outcome: "skipped",
+        message: skipReason,
+      });
+    } else {
+      runnable.push(item);
+    }
+  });
+
+  for (let i = 0; i < runnable.length; i += BATCH_SIZE) {
+    const batch = runnable.slice(i, i + BATCH_SIZE);
+    const settled = await Promise.allSettled(batch.map(run));
+    settled.forEach((result, index) => {
+      const item = batch[index];
+      results.push({
+        id: getId(item),
+        label: getLabel(item),
+        outcome: result.status === "fulfilled" ? "success" : "failed",
+        message:
+          result.status === "rejected"
+            ? getApiErrorMessage(result.reason, "Request failed.")
+            : undefined,
+      });
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,157 @@
+import { ClinicalFlag, Cocp } from "@/types";
+import { findInteractions } from "@/utils/formulary";
+
+// Conditions that make the COCP an unacceptable risk (UKMEC 4)
+const UKMEC4_CONDITIONS = [
+  {
+    id: "vte-history",
+    match: ["dvt", "thrombosis", "embolism", "vte"],
+    title: "History of VTE",
+  },
+  { id: "stroke", match: ["stroke", "tia"], title: "Stroke or TIA" },
+  {
+    id: "ischaemic-heart-disease",
+    match: ["heart attack", "ischaemic heart", "angina"],
+    title: "Ischaemic heart disease",
+  },
+  {
+    id: "breast-cancer",
+    match: ["breast cancer"],
+    title: "Current breast cancer",
+  },
+];
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole-word match so short terms like "tia" don't hit "essential"
+const includesAny = (text: string, terms: string[]) =>
+  terms.some((term) =>
+    new RegExp(`\\b${escapeRegExp(term)}\\b`, "i").test(text)
+  );
+
+// Free-text medical history and details, lower-cased for keyword matching
+const getHistoryText = (request: Cocp) =>
+  [...(request.medicalHistory || []), request.medicalDetails || ""]
+    .join(" ")
+    .toLowerCase();
+
+const checkBmi = ({ bmi }: Cocp): ClinicalFlag | null => {
+  if (!bmi) return null;
+  if (bmi >= 35) {
+    return {
+      id: "bmi",
+      category: 3,
+      title: "BMI 35 or above",
+      reason: `BMI ${bmi} — risks of the COCP usually outweigh the benefits.`,
+    };
+  }
+  if (bmi >= 30) {
+    return {
+      id: "bmi",
+      category: 2,
+      title: "BMI 30–34",
+      reason: `BMI ${bmi} — benefits generally outweigh risks; monitor weight.`,
+    };
+  }
+  return null;
+};
+
+const checkBloodPressure = ({
+  systolic,
+  diastolic,
+}: Cocp): ClinicalFlag | null => {
+  if (!systolic && !diastolic) return null;
+  const reading = `${systolic || "?"}/${diastolic || "?"} mmHg`;
+  if (systolic >= 160 || diastolic >= 95) {
+    return {
+      id: "blood-pressure",
+      category: 4,
+      title: "Severe hypertension",
+      reason: `Blood pressure ${reading} is at or above 160/95.`,
+    };
+  }
+  if (systolic >= 140 || diastolic >= 90) {
+    return {
+      id: "blood-pressure",
+      category: 3,
+      title: "Raised blood pressure",
+      reason: `Blood pressure ${reading} is between 140/90 and 159/94.`,
+    };
+  }
+  return null;
+};
+
+const checkMigraine = (historyText: string): ClinicalFlag | null => {
+  if (!includesAny(historyText, ["migraine", "migraines"])) return null;
+  const hasAura =
+    includesAny(historyText, ["aura"]) &&
+    !includesAny(historyText, ["without aura", "no aura"]);
+  if (hasAura) {
+    return {
+      id: "migraine",
+      category: 4,
+      title: "Migraine with aura",
+      reason:
+        "Migraine with aura carries an unacceptable stroke risk on the COCP.",
+    };
+  }
+  return {
+    id: "migraine",
+    category: 2,
+    title: "Migraine without aura",
+    reason: "Confirm there is no aura before supplying.",
+  };
+};
+
+// One flag per interacting medicine found in the formulary
+const checkDrugs = ({ drugs }: Cocp): ClinicalFlag[] => {
+  const seen = new Set<string>();
+  return findInteractions(drugs).flatMap(({ input, entry, distance }) => {
+    if (seen.has(entry.id)) return [];
+    seen.add(entry.id);
+    const spelling =
+      distance > 0 ? ` Entered as "${input}"; confirm the spelling.` : "";
+    return [
+      {
+        id: `drug-${entry.id}`,
+        category: entry.category,
+        title: entry.name,
+        reason: `${entry.advice}${spelling}`,
+      },
+    ];
+  });
+};
+
+// Applies UKMEC-style rules to a COCP request, most severe flags first
+export const evaluateCocp = (request: Cocp): ClinicalFlag[] => {
+  const historyText = getHistoryText(request);
+  const flags: (ClinicalFlag | null)[] = [
+    request.isPregnant
+      ? {
+        id: "pregnancy",
+        category: 4,
+        title: "Pregnant",
+        reason: "Patient reports being pregnant; do not supply.",
+      }
+      : null,
+    checkBloodPressure(request),
+    checkBmi(request),
+    checkMigraine(historyText),
+    ...checkDrugs(request),
+    ...UKMEC4_CONDITIONS.map((condition) =>
+      includesAny(historyText, condition.match)
+        ? {
+          id: condition.id,
+          category: 4 as const,
+          title: condition.title,
+          reason: "Reported in the patient's medical history.",
+        }
+        : null
+    ),
+  ];
+
+  return flags
+    .filter((flag): flag is ClinicalFlag => flag !== null)
+    .sort((a, b) => b.category - a.category);
+};
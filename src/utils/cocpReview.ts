@@ -0,0 +1,87 @@
+import { Cocp, ServiceRequest } from "@/types";
+import { BP_BMI_RECHECK_INTERVAL_MONTHS } from "@/config/cocpReview";
+
+export interface CocpMeasurement {
+  requestId: string;
+  at: string;
+  systolic?: number;
+  diastolic?: number;
+  bmi?: number;
+}
+
+const isCocp = (req: ServiceRequest): req is Cocp => req.serviceType === "cocp";
+
+const hasBloodPressure = (m: CocpMeasurement) =>
+  Boolean(m.systolic && m.diastolic);
+
+// Measurements reported on each COCP request, oldest first. Blank or zero
+// readings are dropped so they never count as a recheck.
+export const getCocpMeasurements = (
+  requests: ServiceRequest[]
+): CocpMeasurement[] =>
+  requests
+    .filter(isCocp)
+    .filter((req) => req.createdAt)
+    .map((req) => ({
+      requestId: req._id,
+      at: req.createdAt!,
+      systolic: req.systolic > 0 ? req.systolic : undefined,
+      diastolic: req.diastolic > 0 ? req.diastolic : undefined,
+      bmi: req.bmi > 0 ? req.bmi : undefined,
+    }))
+    .filter((m) => hasBloodPressure(m) || m.bmi)
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+const isStale = (at: string | undefined, now: Date) => {
+  if (!at) return true;
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - BP_BMI_RECHECK_INTERVAL_MONTHS);
+  return new Date(at).getTime() < cutoff.getTime();
+};
+
+export interface RecheckStatus {
+  lastBloodPressureAt?: string;
+  lastBmiAt?: string;
+  bloodPressureDue: boolean;
+  bmiDue: boolean;
+}
+
+export const getRecheckStatus = (
+  measurements: CocpMeasurement[],
+  now = new Date()
+): RecheckStatus => {
+  const lastBloodPressureAt = [...measurements]
+    .reverse()
+    .find(hasBloodPressure)?.at;
+  const lastBmiAt = [...measurements].reverse().find((m) => m.bmi)?.at;
+
+  return {
+    lastBloodPressureAt,
+    lastBmiAt,
+    bloodPressureDue: isStale(lastBloodPressureAt, now),
+    bmiDue: isStale(lastBmiAt, now),
+  };
+};
+
+// Why a COCP request cannot be accepted yet, or null when it can. Pass the
+// patient's other requests so older readings count; without them only the
+// request's own readings are considered.
+export const getRecheckBlockReason = (
+  request: ServiceRequest,
+  history: ServiceRequest[] = []
+): string | null => {
+  if (!isCocp(request)) return null;
+
+  const others = history.filter((req) => req._id !== request._id);
+  const { bloodPressureDue, bmiDue } = getRecheckStatus(
+    getCocpMeasurements([...others, request])
+  );
+  const missing = [
+    bloodPressureDue && "blood pressure",
+    bmiDue && "BMI",
+  ].filter(Boolean);
+
+  return missing.length
+    ? `No ${missing.join(" or ")} reading in the last ${BP_BMI_RECHECK_INTERVAL_MONTHS} months. A recheck is needed before this COCP can be accepted.`
+    : null;
+};
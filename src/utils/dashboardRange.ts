@@ -0,0 +1,104 @@
+import { DASHBOARD_RANGE_PRESETS } from "@/config/dashboardRange";
+import { DashboardQueryParams, StatGranularity } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD in local time, the format of <input type="date">
+export const toDateInputValue = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (value: string, days: number) => {
+  const date = parseDateInput(value);
+  date.setDate(date.getDate() + days);
+  return toDateInputValue(date);
+};
+
+// Number of days in an inclusive range
+const getRangeDays = ({ from, to }: DashboardQueryParams) =>
+  Math.round(
+    (parseDateInput(to).getTime() - parseDateInput(from).getTime()) / DAY_MS
+  ) + 1;
+
+// Range ending today for one of the dashboard presets
+export const getPresetRange = (
+  preset: (typeof DASHBOARD_RANGE_PRESETS)[number]["value"],
+  today = new Date()
+): DashboardQueryParams => {
+  const { days, granularity } = DASHBOARD_RANGE_PRESETS.find(
+    (option) => option.value === preset
+  )!;
+  const to = toDateInputValue(today);
+  return { from: addDays(to, 1 - days), to, granularity };
+};
+
+// The equally long period immediately before `range`, used for the deltas
+export const getPreviousRange = (
+  range: DashboardQueryParams
+): DashboardQueryParams => {
+  const to = addDays(range.from, -1);
+  return {
+    from: addDays(to, 1 - getRangeDays(range)),
+    to,
+    granularity: range.granularity,
+  };
+};
+
+export const formatRangeLabel = (
+  { from, to }: DashboardQueryParams,
+  granularity?: StatGranularity
+) => {
+  const format = (value: string) =>
+    parseDateInput(value).toLocaleDateString("en-GB", {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  return `${format(from)} – ${format(to)}${granularity ? `, by ${granularity}` : ""}`;
+};
+
+export interface StatDelta {
+  change: number;
+  // Null when the previous value was zero and a percentage means nothing
+  percent: number | null;
+}
+
+export const getStatDelta = (current: number, previous: number): StatDelta => ({
+  change: current - previous,
+  percent:
+    previous === 0
+      ? null
+      : Math.round(((current - previous) / previous) * 1000) / 10,
+});
+
+// Chart bucket a date falls into; weeks start on Monday
+export const getPeriodBucket = (date: Date, granularity: StatGranularity) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === "week") {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  if (granularity === "month") {
+    start.setDate(1);
+    return {
+      key: toDateInputValue(start).slice(0, 7),
+      label: start.toLocaleDateString("en-GB", {
+        month: "short",
+        year: "numeric",
+      }),
+    };
+  }
+  return {
+    key: toDateInputValue(start),
+    label: start.toLocaleDateString("en-GB", {
+      day: "numeric",
+      month: "short",
+    }),
+  };
+};
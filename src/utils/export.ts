@@ -0,0 +1,80 @@
+import { PaginatedResponse } from "@/types";
+
+export type CsvValue = string | string[] | number | boolean | null | undefined;
+
+export interface CsvColumn<T> {
+  header: string;
+  value(row: T): CsvValue;
+}
+
+export const formatCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// Quotes every cell and defuses values a spreadsheet would run as a formula
+const escapeCsvCell = (value: CsvValue): string => {
+  let text = formatCsvValue(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const header = columns.map((col) => escapeCsvCell(col.header)).join(",");
+  const body = rows.map((row) =>
+    columns.map((col) => escapeCsvCell(col.value(row))).join(",")
+  );
+  return [header, ...body].join("\r\n");
+};
+
+// e.g. "pop-requests-2025-01-31.csv"
+export const getExportFilename = (prefix: string, extension = "csv") =>
+  `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = <T>(
+  filename: string,
+  rows: T[],
+  columns: CsvColumn<T>[]
+) => {
+  // Leading BOM so Excel opens the file as UTF-8
+  const blob = new Blob(["\uFEFF", toCsv(rows, columns)], {
+    type: "text/csv;charset=utf-8;",
+  });
+  downloadBlob(filename, blob);
+};
+
+export const downloadTextFile = (filename: string, text: string) => {
+  const blob = new Blob([text], { type: "text/plain;charset=utf-8;" });
+  downloadBlob(filename, blob);
+};
+
+// Walks a paginated list endpoint so exports include every matching row
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  let page = 1;
+  let totalPage = 1;
+
+  do {
+    const response = await fetchPage(page);
+    rows.push(...response.data);
+    totalPage = response.meta.totalPage || 1;
+    page += 1;
+  } while (page <= totalPage);
+
+  return rows;
+};
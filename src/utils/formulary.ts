@@ -0,0 +1,80 @@
+import formularyData from "@/data/formulary.json";
+import { DrugMatch, FormularyEntry } from "@/types";
+
+export const FORMULARY = formularyData as FormularyEntry[];
+
+// Lower-cased words only, so "St. John's Wort" and "st johns wort" compare equal
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Misspellings tolerated per term length; short names must match exactly
+const getMaxDistance = (term: string) =>
+  term.length <= 4 ? 0 : term.length <= 8 ? 1 : 2;
+
+const FORMULARY_TERMS = FORMULARY.flatMap((entry) =>
+  [entry.name, ...entry.aliases].map((term) => {
+    const normalized = normalize(term);
+    return { entry, term, normalized, words: normalized.split(" ").length };
+  })
+);
+
+// Patients often list several medicines in one answer
+const splitDrugList = (drugs: string[]) =>
+  drugs
+    .flatMap((drug) => drug.split(/[,;/\n]|\band\b/i))
+    .map((drug) => drug.trim())
+    .filter(Boolean);
+
+// Closest formulary term within `input`, comparing windows of the same word
+// count so "carbamazepine 200mg twice daily" still matches "carbamazepine"
+const matchInput = (input: string): DrugMatch[] => {
+  const words = normalize(input).split(" ").filter(Boolean);
+  const best = new Map<string, DrugMatch>();
+
+  FORMULARY_TERMS.forEach(({ entry, term, normalized, words: size }) => {
+    const maxDistance = getMaxDistance(normalized);
+    for (let start = 0; start + size <= words.length; start++) {
+      const window = words.slice(start, start + size).join(" ");
+      const distance = levenshtein(window, normalized);
+      const current = best.get(entry.id);
+      if (
+        distance <= maxDistance &&
+        (!current || distance < current.distance)
+      ) {
+        best.set(entry.id, { input, entry, matchedTerm: term, distance });
+      }
+    }
+  });
+
+  return [...best.values()];
+};
+
+// Every formulary hit in the entered drug names, exact matches first
+export const findInteractions = (drugs: string[] = []): DrugMatch[] =>
+  splitDrugList(drugs)
+    .flatMap(matchInput)
+    .sort((a, b) => a.distance - b.distance);
+
+// Matches grouped by the original answer they came from, for highlighting
+export const matchDrugList = (drugs: string[] = []) =>
+  drugs.map((drug) => ({ drug, matches: findInteractions([drug]) }));
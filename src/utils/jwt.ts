@@ -0,0 +1,23 @@
+// Reads a JWT's payload without verifying it; only the API can do that, so
+// use the result for scheduling, never for trust decisions
+export const decodeJwtPayload = (token: string) => {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(base64)) as { exp?: number };
+  } catch {
+    return null;
+  }
+};
+
+// Expiry in epoch milliseconds, or null when the token has no `exp` claim
+export const getTokenExpiry = (token: string) => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+};
+
+export const isTokenExpiring = (token: string, leewayMs: number) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() <= leewayMs;
+};
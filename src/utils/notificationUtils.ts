@@ -40,3 +40,28 @@ export const requestNotificationPermissionAndGetToken = async () => {
     return null;
   }
 };
+
+// Short two-tone chime generated with the Web Audio API, so no sound file
+// needs to be shipped. Browsers may block it until the page has been clicked.
+export const playNotificationSound = () => {
+  if (typeof window === "undefined" || !window.AudioContext) return;
+
+  try {
+    const context = new AudioContext();
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.15;
+
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error("Failed to play notification sound:", error);
+  }
+};
@@ -0,0 +1,155 @@
+import {
+  AccountEvent,
+  AccountEventType,
+  Message,
+  ServiceRequest,
+  User,
+} from "@/types";
+import { getServiceDefinition } from "@/config/services";
+import { DELIVERY_STATUS_META } from "@/config/delivery";
+import {
+  getDecisionReasonLabel,
+  getFollowUpActionLabel,
+} from "@/config/decisionReasons";
+
+export type TimelineEventKind =
+  | "request"
+  | "decision"
+  | "delivery"
+  | "message"
+  | "account";
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  at: string;
+  title: string;
+  description?: string;
+  // Staff member or sender responsible for the event
+  actor?: User | string;
+  href?: string;
+}
+
+const ACCOUNT_EVENT_TITLES: Record<AccountEventType, string> = {
+  registered: "Account created",
+  verified: "Account verified",
+  blocked: "Account blocked",
+  unblocked: "Account unblocked",
+  profile_updated: "Profile updated",
+};
+
+const requestEvents = (req: ServiceRequest): TimelineEvent[] => {
+  const { label } = getServiceDefinition(req.serviceType);
+  const href = `/dashboard/our-service/${req._id}?type=${req.serviceType}`;
+  const events: TimelineEvent[] = [];
+
+  if (req.createdAt) {
+    events.push({
+      id: `request-${req._id}`,
+      kind: "request",
+      at: req.createdAt,
+      title: `${label} request submitted`,
+      description: getServiceDefinition(req.serviceType).dispensing.product(req),
+      href,
+    });
+  }
+
+  (req.decisions || []).forEach((decision, index) => {
+    const details = [
+      decision.reasonCode && getDecisionReasonLabel(decision.reasonCode),
+      decision.note,
+      decision.followUpAction &&
+      `Follow-up: ${getFollowUpActionLabel(decision.followUpAction)}`,
+    ].filter(Boolean);
+
+    events.push({
+      id: `decision-${req._id}-${decision._id || index}`,
+      kind: "decision",
+      at: decision.decidedAt,
+      title: `${label} request ${decision.status === "accept" ? "accepted" : "declined"
+        }`,
+      description: details.join(" · ") || undefined,
+      actor: decision.decidedBy,
+      href,
+    });
+  });
+
+  (req.deliveryEvents || []).forEach((event, index) => {
+    events.push({
+      id: `delivery-${req._id}-${event._id || index}`,
+      kind: "delivery",
+      at: event.at,
+      title: `${label} delivery: ${DELIVERY_STATUS_META[event.status]?.label || event.status
+        }`,
+      description: event.note,
+      actor: event.by,
+      href,
+    });
+  });
+
+  return events;
+};
+
+// Bare staff ids become the matching user so the timeline can name them
+const resolveActor = (
+  actor: User | string | undefined,
+  staffList: User[]
+): User | string | undefined =>
+  typeof actor === "string"
+    ? staffList.find((staff) => staff._id === actor) ?? actor
+    : actor;
+
+const messageEvent = (message: Message, patientId: string): TimelineEvent => {
+  const senderId =
+    typeof message.senderId === "object"
+      ? message.senderId._id
+      : message.senderId;
+  const fromPatient = senderId === patientId;
+
+  return {
+    id: `message-${message._id}`,
+    kind: "message",
+    at: message.createdAt,
+    title: fromPatient ? "Message from patient" : "Message to patient",
+    description: message.text || (message.attachment ? "Sent an attachment" : ""),
+    actor: fromPatient ? undefined : senderId,
+    href: `/dashboard/messages/${message.chatId}`,
+  };
+};
+
+const accountEvent = (event: AccountEvent): TimelineEvent => ({
+  id: `account-${event._id}`,
+  kind: "account",
+  at: event.at,
+  title: ACCOUNT_EVENT_TITLES[event.type] || event.type,
+  description: event.fields?.length
+    ? `Changed: ${event.fields.join(", ")}`
+    : undefined,
+  actor: event.by,
+});
+
+// Merges everything known about a patient into one list, newest first.
+// `staffList` names staff that the API returned as bare ids, e.g. senders.
+export const buildPatientTimeline = ({
+  patientId,
+  requests = [],
+  messages = [],
+  accountEvents = [],
+  staffList = [],
+}: {
+  patientId: string;
+  requests?: ServiceRequest[];
+  messages?: Message[];
+  accountEvents?: AccountEvent[];
+  staffList?: User[];
+}): TimelineEvent[] =>
+  [
+    ...requests.flatMap(requestEvents),
+    ...messages.map((message) => messageEvent(message, patientId)),
+    ...accountEvents.map(accountEvent),
+  ]
+    .map((event) => ({
+      ...event,
+      actor: resolveActor(event.actor, staffList),
+    }))
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
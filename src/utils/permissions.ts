@@ -0,0 +1,20 @@
+import {
+  Capability,
+  ROLE_CAPABILITIES,
+  ROUTE_CAPABILITIES,
+} from "@/config/permissions";
+import { UserRole } from "@/types";
+
+export const can = (role: UserRole | undefined, capability: Capability) =>
+  Boolean(role && ROLE_CAPABILITIES[role]?.includes(capability));
+
+// Capability guarding a pathname, or undefined for routes outside the dashboard
+export const getRouteCapability = (pathname: string) =>
+  ROUTE_CAPABILITIES.filter(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  ).sort((a, b) => b.prefix.length - a.prefix.length)[0]?.capability;
+
+export const canAccessRoute = (role: UserRole | undefined, pathname: string) => {
+  const capability = getRouteCapability(pathname);
+  return capability ? can(role, capability) : true;
+};
@@ -0,0 +1,35 @@
+type QueryValue = string | number | null | undefined;
+
+// Query string with `changes` applied on top of `current`. Empty values are
+// dropped so default filters don't clutter shareable URLs.
+export const mergeQueryParams = (
+  current: { toString(): string },
+  changes: Record<string, QueryValue>
+) => {
+  const params = new URLSearchParams(current.toString());
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null || value === undefined || value === "") {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+// Builds a link to `path` with the given filters applied
+export const buildFilterHref = (
+  path: string,
+  filters: Record<string, QueryValue>
+) => `${path}${mergeQueryParams("", filters)}`;
+
+// Narrows a query parameter to one of the allowed values
+export const parseQueryOption = <T extends string>(
+  value: string | null,
+  options: readonly T[],
+  fallback: T
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+export const parsePageParam = (value: string | null) =>
+  Math.max(1, Math.floor(Number(value)) || 1);
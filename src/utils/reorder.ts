@@ -0,0 +1,106 @@
+import { ServiceRequest, User } from "@/types";
+import { isDeliveryComplete } from "@/config/delivery";
+import {
+  DEFAULT_SUPPLY_MONTHS,
+  REORDER_WINDOW_DAYS,
+  ReorderStatus,
+} from "@/config/reorder";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getPatientId = (req: ServiceRequest) =>
+  typeof req.userId === "object" ? req.userId._id : req.userId;
+
+// Supply starts on delivery when we know it, otherwise on acceptance
+export const getSupplyStartDate = (req: ServiceRequest): Date | null => {
+  if (req.status !== "accept") return null;
+
+  const delivered = [...(req.deliveryEvents || [])]
+    .reverse()
+    .find((event) => isDeliveryComplete(event.status));
+  if (delivered) return new Date(delivered.at);
+
+  const accepted = [...(req.decisions || [])]
+    .reverse()
+    .find((decision) => decision.status === "accept");
+  if (accepted) return new Date(accepted.decidedAt);
+
+  return req.updatedAt ? new Date(req.updatedAt) : null;
+};
+
+export const getReorderDueDate = (req: ServiceRequest): Date | null => {
+  const start = getSupplyStartDate(req);
+  if (!start) return null;
+
+  const due = new Date(start);
+  due.setMonth(due.getMonth() + (req.suppliedMonths ?? DEFAULT_SUPPLY_MONTHS));
+  return due;
+};
+
+export const getReorderStatus = (
+  req: ServiceRequest,
+  now = new Date()
+): ReorderStatus | null => {
+  const due = getReorderDueDate(req);
+  if (!due) return null;
+
+  if (due.getTime() < now.getTime()) return "overdue";
+  if (due.getTime() - now.getTime() <= REORDER_WINDOW_DAYS * DAY_MS)
+    return "due";
+  return "ok";
+};
+
+export interface ReorderDueItem {
+  request: ServiceRequest;
+  patient: Partial<User>;
+  dueDate: Date;
+  status: Exclude<ReorderStatus, "ok">;
+}
+
+// One entry per patient whose latest supply is running out. Patients with a
+// request newer than that supply have already reordered and are left out.
+export const getReorderDueList = (
+  requests: ServiceRequest[],
+  now = new Date()
+): ReorderDueItem[] => {
+  const byPatient = new Map<string, ServiceRequest[]>();
+  requests.forEach((req) => {
+    const patientId = getPatientId(req);
+    byPatient.set(patientId, [...(byPatient.get(patientId) || []), req]);
+  });
+
+  const items: ReorderDueItem[] = [];
+  byPatient.forEach((patientRequests) => {
+    const latestSupply = patientRequests
+      .filter((req) => req.status === "accept")
+      .map((req) => ({ req, start: getSupplyStartDate(req) }))
+      .filter((entry): entry is { req: ServiceRequest; start: Date } =>
+        Boolean(entry.start)
+      )
+      .sort((a, b) => b.start.getTime() - a.start.getTime())[0];
+    if (!latestSupply) return;
+
+    const hasReordered = patientRequests.some(
+      (req) =>
+        req !== latestSupply.req &&
+        req.status !== "decline" &&
+        req.createdAt &&
+        new Date(req.createdAt).getTime() > latestSupply.start.getTime()
+    );
+    if (hasReordered) return;
+
+    const status = getReorderStatus(latestSupply.req, now);
+    const dueDate = getReorderDueDate(latestSupply.req);
+    if (!status || status === "ok" || !dueDate) return;
+
+    const { userId } = latestSupply.req;
+    items.push({
+      request: latestSupply.req,
+      patient: typeof userId === "object" ? userId : { _id: userId },
+      dueDate,
+      status,
+    });
+  });
+
+  return items.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
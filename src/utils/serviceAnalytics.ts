@@ -0,0 +1,229 @@
+import { getServiceDefinition, SERVICE_TYPES } from "@/config/services";
+import { getDecisionReasonLabel } from "@/config/decisionReasons";
+import { isDeliveryComplete } from "@/config/delivery";
+import {
+  ServiceRequest,
+  ServiceType,
+  StatGranularity,
+  User,
+} from "@/types";
+import { getPeriodBucket } from "@/utils/dashboardRange";
+import { resolveStaffReference } from "@/utils/staff";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ServiceVolumeBucket {
+  key: string;
+  label: string;
+  counts: Record<ServiceType, number>;
+}
+
+export interface ServiceOutcomeSummary {
+  service: ServiceType;
+  label: string;
+  total: number;
+  accepted: number;
+  declined: number;
+  pending: number;
+  // Share of decided requests, null until something has been decided
+  acceptanceRate: number | null;
+  declineRate: number | null;
+}
+
+export interface DeclineReasonCount {
+  code: string;
+  label: string;
+  count: number;
+}
+
+export interface StaffThroughput {
+  key: string;
+  staffId?: string;
+  name: string;
+  accepted: number;
+  declined: number;
+  delivered: number;
+}
+
+export interface ServiceAnalytics {
+  total: number;
+  volume: ServiceVolumeBucket[];
+  outcomes: ServiceOutcomeSummary[];
+  medianDecisionHours: number | null;
+  medianDeliveryHours: number | null;
+  declineReasons: DeclineReasonCount[];
+  staffThroughput: StaffThroughput[];
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hoursBetween = (from?: string, to?: string) =>
+  from && to
+    ? (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS
+    : null;
+
+const toRate = (count: number, total: number) =>
+  total === 0 ? null : Math.round((count / total) * 1000) / 10;
+
+const toTime = (iso: string) => new Date(iso).getTime();
+
+// Oldest first; the API doesn't guarantee the order of either history
+const getSortedDecisions = (req: ServiceRequest) =>
+  [...(req.decisions || [])].sort(
+    (a, b) => toTime(a.decidedAt) - toTime(b.decidedAt)
+  );
+
+// Hours from submission to the first accept/decline decision
+const getDecisionHours = (req: ServiceRequest) =>
+  hoursBetween(req.createdAt, getSortedDecisions(req)[0]?.decidedAt);
+
+// Hours from the acceptance that led to delivery (the latest one before it)
+// to the order being delivered. Requests re-accepted only after delivery
+// have no such pair and are left out.
+const getDeliveryHours = (req: ServiceRequest) => {
+  const delivered = [...(req.deliveryEvents || [])]
+    .sort((a, b) => toTime(a.at) - toTime(b.at))
+    .find((event) => isDeliveryComplete(event.status));
+  if (!delivered) return null;
+
+  const accepted = getSortedDecisions(req)
+    .filter(
+      (decision) =>
+        decision.status === "accept" &&
+        toTime(decision.decidedAt) <= toTime(delivered.at)
+    )
+    .pop();
+  return hoursBetween(accepted?.decidedAt, delivered.at);
+};
+
+// Operations figures for requests created in the selected range. Staff are
+// matched through `staffList` so legacy name strings group with their owner.
+export const buildServiceAnalytics = (
+  requests: ServiceRequest[],
+  granularity: StatGranularity,
+  staffList: User[] = []
+): ServiceAnalytics => {
+  const volume = new Map<string, ServiceVolumeBucket>();
+  const declineReasons = new Map<string, DeclineReasonCount>();
+  const staff = new Map<string, StaffThroughput>();
+  const decisionHours: number[] = [];
+  const deliveryHours: number[] = [];
+
+  const countForStaff = (
+    ref: User | string | undefined,
+    field: "accepted" | "declined" | "delivered"
+  ) => {
+    const resolved = resolveStaffReference(ref, staffList);
+    if (!resolved) return;
+    const key = resolved.id || resolved.name;
+    const entry = staff.get(key) || {
+      key,
+      staffId: resolved.id,
+      name: resolved.name,
+      accepted: 0,
+      declined: 0,
+      delivered: 0,
+    };
+    entry[field] += 1;
+    staff.set(key, entry);
+  };
+
+  requests.forEach((req) => {
+    if (req.createdAt) {
+      const bucket = getPeriodBucket(new Date(req.createdAt), granularity);
+      const entry = volume.get(bucket.key) || {
+        ...bucket,
+        counts: Object.fromEntries(
+          SERVICE_TYPES.map((service) => [service, 0])
+        ) as Record<ServiceType, number>,
+      };
+      entry.counts[req.serviceType] += 1;
+      volume.set(bucket.key, entry);
+    }
+
+    const decisionTime = getDecisionHours(req);
+    if (decisionTime !== null) decisionHours.push(decisionTime);
+    const deliveryTime = getDeliveryHours(req);
+    if (deliveryTime !== null) deliveryHours.push(deliveryTime);
+
+    (req.decisions || []).forEach((decision) =>
+      countForStaff(
+        decision.decidedBy,
+        decision.status === "accept" ? "accepted" : "declined"
+      )
+    );
+    if (isDeliveryComplete(req.deliveryStatus)) {
+      countForStaff(req.deliveredBy, "delivered");
+    }
+
+    if (req.status === "decline") {
+      const latestDecline = getSortedDecisions(req)
+        .reverse()
+        .find((decision) => decision.status === "decline");
+      const code = latestDecline?.reasonCode || "unrecorded";
+      const entry = declineReasons.get(code) || {
+        code,
+        label:
+          code === "unrecorded"
+            ? "No reason recorded"
+            : getDecisionReasonLabel(code) ?? code,
+        count: 0,
+      };
+      entry.count += 1;
+      declineReasons.set(code, entry);
+    }
+  });
+
+  const outcomes = SERVICE_TYPES.map((service) => {
+    const serviceRequests = requests.filter(
+      (req) => req.serviceType === service
+    );
+    const accepted = serviceRequests.filter(
+      (req) => req.status === "accept"
+    ).length;
+    const declined = serviceRequests.filter(
+      (req) => req.status === "decline"
+    ).length;
+    return {
+      service,
+      label: getServiceDefinition(service).label,
+      total: serviceRequests.length,
+      accepted,
+      declined,
+      pending: serviceRequests.length - accepted - declined,
+      acceptanceRate: toRate(accepted, accepted + declined),
+      declineRate: toRate(declined, accepted + declined),
+    };
+  });
+
+  return {
+    total: requests.length,
+    volume: [...volume.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    outcomes,
+    medianDecisionHours: median(decisionHours),
+    medianDeliveryHours: median(deliveryHours),
+    declineReasons: [...declineReasons.values()].sort(
+      (a, b) => b.count - a.count
+    ),
+    staffThroughput: [...staff.values()].sort(
+      (a, b) =>
+        b.accepted + b.declined + b.delivered -
+        (a.accepted + a.declined + a.delivered)
+    ),
+  };
+};
+
+// "36 min", "5.5 h" or "2.3 days" for the median cards
+export const formatDuration = (hours: number | null) => {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10} h`;
+  return `${Math.round((hours / 24) * 10) / 10} days`;
+};
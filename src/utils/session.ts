@@ -0,0 +1,45 @@
+import { LOGIN_PATH, RETURN_TO_PARAM } from "@/config/session";
+
+const SESSION_ROUTE = "/api/session";
+
+// Asks the server to verify the access token and set the session cookie.
+// Resolves once the cookie is in place so navigation passes middleware.
+export const syncSessionCookie = async (accessToken: string) => {
+  const response = await fetch(SESSION_ROUTE, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ accessToken }),
+  });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as {
+      message?: string;
+    } | null;
+    throw new Error(body?.message || "Could not start your session.");
+  }
+};
+
+export const clearSessionCookie = async () => {
+  try {
+    await fetch(SESSION_ROUTE, { method: "DELETE" });
+  } catch (err) {
+    console.error("Failed to clear the session cookie:", err);
+  }
+};
+
+// Browsers read "\" as "/" and drop tabs and newlines, so "/\evil.com" or
+// "/\t/evil.com" would still leave the site
+const UNSAFE_PATH_CHARS = /[\\\u0000-\u001f\u007f]/;
+
+// Only same-origin paths are followed after login, never absolute URLs
+export const getSafeReturnTo = (value: string | null | undefined) =>
+  value &&
+  value.startsWith("/") &&
+  !value.startsWith("//") &&
+  !UNSAFE_PATH_CHARS.test(value)
+    ? value
+    : "/dashboard";
+
+export const getLoginHref = (returnTo?: string) =>
+  returnTo
+    ? `${LOGIN_PATH}?${new URLSearchParams({ [RETURN_TO_PARAM]: returnTo })}`
+    : LOGIN_PATH;
@@ -0,0 +1,65 @@
+import { UserRole } from "@/types";
+
+// Server-only: the session cookie is `<role>.<expiresAt>.<signature>`, signed
+// with SESSION_SECRET so middleware can trust it without calling the API.
+// Web Crypto keeps this usable from both middleware and route handlers.
+
+const encoder = new TextEncoder();
+
+const getKey = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) return null;
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+};
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(
+    atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+    (char) => char.charCodeAt(0)
+  );
+
+// Null when SESSION_SECRET is missing, so no unsigned cookie is ever issued
+export const signSessionCookie = async (role: UserRole, expiresAt: number) => {
+  const key = await getKey();
+  if (!key) return null;
+  const payload = `${role}.${expiresAt}`;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(payload)
+  );
+  return `${payload}.${toBase64Url(signature)}`;
+};
+
+// The role from a cookie with a valid signature that hasn't expired, else null
+export const verifySessionCookie = async (value: string | undefined) => {
+  const [role, expiresAt, signature] = value?.split(".") ?? [];
+  if (!role || !expiresAt || !signature) return null;
+  if (!(Number(expiresAt) > Date.now())) return null;
+
+  const key = await getKey();
+  if (!key) return null;
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      encoder.encode(`${role}.${expiresAt}`)
+    );
+    return isValid ? (role as UserRole) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,45 @@
+import { User } from "@/types";
+
+export interface StaffReference {
+  id?: string;
+  name: string;
+  // True for records that stored a display name instead of a staff _id
+  isLegacy: boolean;
+}
+
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+export const getFullName = (user: Pick<User, "firstName" | "surname">) =>
+  `${user.firstName} ${user.surname || ""}`.trim();
+
+// Resolves a populated user, a bare _id or a legacy name string to something
+// displayable. `staffList` lets legacy names and unpopulated ids be matched.
+export const resolveStaffReference = (
+  ref: User | string | undefined,
+  staffList: User[] = []
+): StaffReference | null => {
+  if (!ref) return null;
+
+  if (typeof ref === "object") {
+    return { id: ref._id, name: getFullName(ref), isLegacy: false };
+  }
+
+  if (OBJECT_ID_PATTERN.test(ref)) {
+    const staff = staffList.find((s) => s._id === ref);
+    return {
+      id: ref,
+      name: staff ? getFullName(staff) : "Unknown staff member",
+      isLegacy: false,
+    };
+  }
+
+  // Legacy name: only link when exactly one staff member has that name
+  const matches = staffList.filter(
+    (s) => getFullName(s).toLowerCase() === ref.trim().toLowerCase()
+  );
+  return {
+    id: matches.length === 1 ? matches[0]._id : undefined,
+    name: ref,
+    isLegacy: true,
+  };
+};